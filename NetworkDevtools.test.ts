@@ -0,0 +1,96 @@
+import { createElement } from "react";
+import { render, screen, fireEvent, waitFor, within } from "@testing-library/react";
+import { renderHook, act } from "@testing-library/react-hooks";
+import { useFetch } from "./useFetch";
+import { useMutation } from "./useMutation";
+import { useInfiniteFetch } from "./useInfiniteFetch";
+import { networkEvents, NetworkEvent } from "./events";
+import { NetworkDevtools } from "./NetworkDevtools";
+import { createMockTransport, flushTimers } from "./testing";
+
+describe("networkEvents", () => {
+  let events: NetworkEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    events = [];
+    unsubscribe = networkEvents.subscribe(event => events.push(event));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    jest.useRealTimers();
+  });
+
+  it("should report attempts, timeouts, retries and how the request settled", async () => {
+    const mock = createMockTransport().get("/api/users", [{ delay: 500 }, { body: [{ id: 1 }] }]);
+
+    const { result } = renderHook(() => useFetch("/api/users", { timeout: 100, retry: 1, retryDelay: 10 }), { wrapper: mock.wrapper });
+    await act(() => flushTimers());
+
+    expect(result.current.data).toEqual([{ id: 1 }]);
+    expect(events.map(event => event.type)).toEqual(["start", "attempt", "timeout", "retry", "attempt", "settle"]);
+    expect(events[0]).toMatchObject({ type: "start", request: { url: "/api/users", method: "GET", kind: "fetch" } });
+    expect(events[2]).toMatchObject({ attempt: 1, timeout: 100 });
+    expect(events[5]).toMatchObject({ type: "settle", data: [{ id: 1 }] });
+  });
+
+  it("should report cache hits and misses, and shared requests once", async () => {
+    const mock = createMockTransport().get("/api/users", { body: [], delay: 50 });
+
+    renderHook(() => useFetch("/api/users", { useCache: true }), { wrapper: mock.wrapper });
+    renderHook(() => useFetch("/api/users", { useCache: true }), { wrapper: mock.wrapper });
+    await act(() => flushTimers());
+    renderHook(() => useFetch("/api/users", { useCache: true }), { wrapper: mock.wrapper });
+    await act(() => flushTimers());
+
+    const lookups = events.filter(event => event.type === "cache").map(event => event.type === "cache" && event.hit);
+    expect(lookups).toEqual([false, false, true]);
+    expect(events.filter(event => event.type === "start")).toHaveLength(1);
+  });
+
+  it("should report mutations and the pages of infinite queries", async () => {
+    const mock = createMockTransport()
+      .get("/api/users", { body: [{ id: 1 }] })
+      .post("/api/users", { status: 201, body: { id: 2 } });
+
+    const { result } = renderHook(() => ({
+      pages: useInfiniteFetch("/api/users", { getNextPageParam: () => undefined }),
+      create: useMutation("/api/users"),
+    }), { wrapper: mock.wrapper });
+    await act(() => flushTimers());
+    act(() => result.current.create.mutate({ name: "Ada" }));
+    await act(() => flushTimers());
+
+    const started = events.filter(event => event.type === "start").map(event => event.type === "start" && event.request.method);
+    expect(started).toEqual(["GET", "POST"]);
+  });
+});
+
+describe("NetworkDevtools", () => {
+  const Users = () => {
+    const { data } = useFetch<{ name: string }[]>("/api/users", { useCache: true, debounceTime: 0 });
+    return createElement("p", null, data ? data.map(user => user.name).join(", ") : "Loading");
+  };
+
+  it("should list requests and cache entries, and refetch or invalidate them", async () => {
+    const mock = createMockTransport().get("/api/users", { body: [{ name: "Ada" }] });
+    render(createElement(mock.wrapper, null, createElement(Users), createElement(NetworkDevtools, { initialIsOpen: true })));
+
+    await screen.findByText("Ada");
+    const requests = within(await screen.findByRole("table", { name: "Requests" }));
+    await waitFor(() => expect(requests.getByText("success")).toBeTruthy());
+    expect(requests.getByText("/api/users")).toBeTruthy();
+    expect(requests.getAllByText('[{"name":"Ada"}]')).toHaveLength(1);
+
+    const cache = within(screen.getByRole("table", { name: "Cache" }));
+    fireEvent.click(screen.getByText("Refresh"));
+    fireEvent.click(cache.getByText("Invalidate"));
+    await waitFor(() => expect(mock.requests()).toHaveLength(2));
+
+    fireEvent.click(requests.getAllByText("Refetch")[0]);
+    await waitFor(() => expect(mock.requests()).toHaveLength(3));
+    await waitFor(() => expect(requests.getAllByText("success")).toHaveLength(3));
+  });
+});
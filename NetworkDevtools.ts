@@ -0,0 +1,237 @@
+/**
+ * A floating panel showing what the hooks do on the network, for development builds.
+ *
+ * It lists live and recent requests from `networkEvents` with their method, URL,
+ * status, attempts, timing and a preview of the payload, and the entries of the cache
+ * used below the nearest `NetworkProvider` with their cache hits and misses. Requests
+ * and cache entries can be refetched (by the hooks rendering them) or invalidated.
+ *
+ * Render it anywhere below the provider, and leave it out of production builds.
+ *
+ * @param {boolean} [initialIsOpen=false] - Whether the panel starts open, instead of as a toggle button.
+ * @param {number} [maxRequests=100] - How many settled requests are kept.
+ * @param {'bottom-left'|'bottom-right'} [position='bottom-right'] - The corner of the page the panel sits in.
+ *
+ * @example
+ * ```tsx
+ * <NetworkProvider baseUrl="https://api.example.com">
+ *   <App />
+ *   {process.env.NODE_ENV === 'development' && <NetworkDevtools />}
+ * </NetworkProvider>
+ * ```
+ */
+import { createElement, useEffect, useRef, useState, ReactNode, CSSProperties } from 'react';
+import { useNetworkConfig, getNetworkCache } from './NetworkProvider';
+import { networkEvents, NetworkEvent, NetworkRequestInfo } from './events';
+import { HttpError, NetworkError } from './errors';
+
+const DEFAULT_MAX_REQUESTS = 100;
+const PREVIEW_LENGTH = 80;
+
+type RequestLogStatus = 'pending' | 'success' | 'error' | 'aborted';
+
+interface RequestLogEntry {
+  id: number;
+  request: NetworkRequestInfo;
+  status: RequestLogStatus;
+  startedAt: number;
+  duration?: number;
+  attempts: number;
+  timeouts: number;
+  data?: unknown;
+  error?: NetworkError;
+}
+
+interface NetworkLog {
+  /** Newest first. */
+  requests: RequestLogEntry[];
+  cacheLookups: Record<string, { hits: number; misses: number }>;
+}
+
+interface NetworkDevtoolsProps {
+  initialIsOpen?: boolean;
+  maxRequests?: number;
+  position?: 'bottom-left' | 'bottom-right';
+}
+
+const EMPTY_LOG: NetworkLog = { requests: [], cacheLookups: {} };
+
+const updateEntry = (log: NetworkLog, id: number, update: (entry: RequestLogEntry) => Partial<RequestLogEntry>): NetworkLog => ({
+  ...log,
+  requests: log.requests.map(entry => entry.id === id ? { ...entry, ...update(entry) } : entry),
+});
+
+const reduceNetworkLog = (log: NetworkLog, event: NetworkEvent, maxRequests: number): NetworkLog => {
+  switch (event.type) {
+    case 'start': {
+      const entry: RequestLogEntry = { id: event.id, request: event.request, status: 'pending', startedAt: event.time, attempts: 0, timeouts: 0 };
+      // pending requests are never dropped, only the oldest settled ones
+      let settled = 0;
+      const kept = log.requests.filter(request => request.status === 'pending' || ++settled <= maxRequests);
+      return { ...log, requests: [entry, ...kept] };
+    }
+    case 'attempt':
+      return updateEntry(log, event.id, () => ({ attempts: event.attempt }));
+    case 'timeout':
+      return updateEntry(log, event.id, entry => ({ timeouts: entry.timeouts + 1 }));
+    case 'abort':
+      return updateEntry(log, event.id, () => ({ status: 'aborted' }));
+    case 'settle':
+      return updateEntry(log, event.id, entry => ({
+        status: entry.status === 'aborted' ? 'aborted' : event.error ? 'error' : 'success',
+        duration: event.duration,
+        data: event.data,
+        error: event.error,
+      }));
+    case 'cache': {
+      const lookups = log.cacheLookups[event.key] || { hits: 0, misses: 0 };
+      return {
+        ...log,
+        cacheLookups: {
+          ...log.cacheLookups,
+          [event.key]: event.hit ? { ...lookups, hits: lookups.hits + 1 } : { ...lookups, misses: lookups.misses + 1 },
+        },
+      };
+    }
+    default:
+      return log;
+  }
+};
+
+const preview = (value: unknown): string => {
+  let text: string;
+  try {
+    text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+  } catch {
+    text = String(value);
+  }
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text;
+};
+
+const describeStatus = (entry: RequestLogEntry): string => {
+  if (entry.status !== 'error' || !entry.error) return entry.status;
+  return entry.error instanceof HttpError ? `${entry.error.status} ${entry.error.statusText}`.trim() : entry.error.name;
+};
+
+const styles: Record<string, CSSProperties> = {
+  toggle: { position: 'fixed', bottom: 12, zIndex: 99999, padding: '6px 10px', font: '12px monospace', cursor: 'pointer' },
+  panel: { position: 'fixed', bottom: 0, zIndex: 99999, width: 'min(900px, 100vw)', maxHeight: '50vh', overflow: 'auto', background: '#fff', color: '#222', border: '1px solid #ccc', font: '12px monospace', boxShadow: '0 0 8px rgba(0, 0, 0, 0.2)' },
+  header: { display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '4px 8px', background: '#f3f3f3', position: 'sticky', top: 0 },
+  table: { width: '100%', borderCollapse: 'collapse' },
+  cell: { padding: '2px 6px', borderTop: '1px solid #eee', textAlign: 'left', verticalAlign: 'top', whiteSpace: 'nowrap' },
+  preview: { padding: '2px 6px', borderTop: '1px solid #eee', textAlign: 'left', verticalAlign: 'top', color: '#666' },
+};
+
+const statusColors: Record<RequestLogStatus, string> = { pending: '#0366d6', success: '#22863a', error: '#cb2431', aborted: '#6a737d' };
+
+const cell = (content: ReactNode, style: CSSProperties = styles.cell) => createElement('td', { style }, content);
+
+const actions = (...buttons: ReactNode[]) => createElement('td', { style: styles.cell }, ...buttons);
+
+const button = (label: string, onClick: () => void, disabled = false) =>
+  createElement('button', { type: 'button', onClick, disabled, style: { marginRight: 4 } }, label);
+
+const table = (caption: string, headings: string[], rows: ReactNode[]) =>
+  createElement('table', { style: styles.table },
+    createElement('caption', { style: { textAlign: 'left', padding: '6px 8px', fontWeight: 'bold' } }, caption),
+    createElement('thead', null, createElement('tr', null, ...headings.map(heading => createElement('th', { key: heading, style: styles.cell }, heading)))),
+    createElement('tbody', null, ...rows)
+  );
+
+const NetworkDevtools = ({ initialIsOpen = false, maxRequests = DEFAULT_MAX_REQUESTS, position = 'bottom-right' }: NetworkDevtoolsProps) => {
+  const cache = getNetworkCache(useNetworkConfig());
+  const [isOpen, setIsOpen] = useState<boolean>(initialIsOpen);
+  const [log, setLog] = useState<NetworkLog>(EMPTY_LOG);
+  // cache changes aren't events, re-render after acting on the cache
+  const [, setVersion] = useState<number>(0);
+  const pendingEventsRef = useRef<NetworkEvent[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    const unsubscribe = networkEvents.subscribe(event => {
+      // events can be emitted while another component renders (e.g. suspense), apply them after it
+      if (pendingEventsRef.current.push(event) > 1) return;
+      Promise.resolve().then(() => {
+        const events = pendingEventsRef.current;
+        pendingEventsRef.current = [];
+        if (active) {
+          setLog(current => events.reduce((next, pending) => reduceNetworkLog(next, pending, maxRequests), current));
+        }
+      });
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [maxRequests]);
+
+  const side: CSSProperties = position === 'bottom-left' ? { left: 12 } : { right: 12 };
+
+  if (!isOpen) {
+    const pending = log.requests.filter(entry => entry.status === 'pending').length;
+    return createElement('button', { type: 'button', style: { ...styles.toggle, ...side }, onClick: () => setIsOpen(true) },
+      pending > 0 ? `Network (${pending} pending)` : 'Network');
+  }
+
+  const refresh = () => setVersion(version => version + 1);
+  const invalidate = (key: string) => {
+    cache.invalidate(key);
+    refresh();
+  };
+
+  const requestRows = log.requests.map(entry =>
+    createElement('tr', { key: entry.id },
+      cell(entry.request.method),
+      cell(entry.request.url),
+      cell(describeStatus(entry), { ...styles.cell, color: statusColors[entry.status] }),
+      cell(entry.timeouts > 0 ? `${entry.attempts} (${entry.timeouts} timed out)` : String(entry.attempts)),
+      cell(entry.duration === undefined ? '…' : `${entry.duration} ms`),
+      cell(preview(entry.error ? entry.error.message : entry.data), styles.preview),
+      actions(
+        button('Refetch', () => networkEvents.refetch(entry.request.key), !networkEvents.isMounted(entry.request.key)),
+        button('Invalidate', () => invalidate(entry.request.key), !cache.has(entry.request.key))
+      )
+    )
+  );
+
+  const now = Date.now();
+  const cacheRows = cache.keys().map(key => {
+    const entry = cache.get(key)!;
+    const lookups = log.cacheLookups[key] || { hits: 0, misses: 0 };
+    return createElement('tr', { key },
+      cell(key, { ...styles.cell, whiteSpace: 'normal', wordBreak: 'break-all' }),
+      cell(`${Math.round((now - entry.updatedAt) / 1000)}s ago`),
+      cell(entry.isInvalidated ? 'invalidated' : 'valid'),
+      cell(`${lookups.hits} / ${lookups.misses}`),
+      cell(preview(entry.data), styles.preview),
+      actions(
+        button('Refetch', () => networkEvents.refetch(key), !networkEvents.isMounted(key)),
+        button('Invalidate', () => invalidate(key)),
+        button('Remove', () => {
+          cache.remove(key);
+          refresh();
+        })
+      )
+    );
+  });
+
+  return createElement('div', { style: { ...styles.panel, ...side }, role: 'dialog', 'aria-label': 'Network devtools' },
+    createElement('div', { style: styles.header },
+      createElement('strong', null, 'Network'),
+      createElement('span', null,
+        button('Refresh', refresh),
+        button('Clear log', () => setLog(EMPTY_LOG)),
+        button('Close', () => setIsOpen(false))
+      )
+    ),
+    table('Requests', ['Method', 'URL', 'Status', 'Attempts', 'Time', 'Preview', ''], requestRows),
+    table('Cache', ['Key', 'Updated', 'State', 'Hits / misses', 'Preview', ''], cacheRows)
+  );
+};
+
+export type { NetworkDevtoolsProps, NetworkLog, RequestLogEntry, RequestLogStatus };
+
+export {
+  NetworkDevtools,
+  reduceNetworkLog,
+};
@@ -0,0 +1,83 @@
+import { createElement } from "react";
+import { renderHook } from "@testing-library/react-hooks";
+import { useFetch } from "./useFetch";
+import { useGraphQL } from "./useGraphQL";
+import { NetworkProvider, mergeHeaders, resolveUrl } from "./NetworkProvider";
+
+describe("NetworkProvider", () => {
+  const okResponse = (body: unknown) => ({
+    ok: true,
+    json: async () => body,
+  } as Response);
+
+  it("should resolve relative URLs against the base URL", () => {
+    expect(resolveUrl("https://api.example.com/", "/users")).toBe("https://api.example.com/users");
+    expect(resolveUrl("https://api.example.com", "https://other.example.com/a")).toBe("https://other.example.com/a");
+    expect(resolveUrl(undefined, "/users")).toBe("/users");
+  });
+
+  it("should merge headers case-insensitively", () => {
+    expect(mergeHeaders({ Authorization: "a", Accept: "x" }, [["authorization", "b"]])).toEqual({
+      Accept: "x",
+      authorization: "b",
+    });
+    expect(mergeHeaders(undefined, undefined)).toBeUndefined();
+  });
+
+  it("should apply base URL, headers and custom fetch to useFetch", async () => {
+    const customFetch = jest.fn().mockResolvedValue(okResponse({ id: 1 }));
+    const wrapper = ({ children }: { children: any }) =>
+      createElement(NetworkProvider, {
+        baseUrl: "https://api.example.com",
+        headers: { Authorization: "Bearer token" },
+        fetch: customFetch,
+        fetchConfig: { debounceTime: 0, headers: { Accept: "application/json" } },
+      }, children);
+
+    const { result, waitForNextUpdate } = renderHook(
+      () => useFetch("/users", { headers: { "X-Trace": "1" } }),
+      { wrapper }
+    );
+    await waitForNextUpdate();
+
+    expect(result.current.data).toEqual({ id: 1 });
+    expect(customFetch).toHaveBeenCalledTimes(1);
+    const [url, init] = customFetch.mock.calls[0];
+    expect(url).toBe("https://api.example.com/users");
+    expect(init.headers).toEqual({
+      Authorization: "Bearer token",
+      Accept: "application/json",
+      "X-Trace": "1",
+    });
+  });
+
+  it("should merge nested providers", async () => {
+    const customFetch = jest.fn().mockResolvedValue(okResponse({ data: { hello: "world" } }));
+    const wrapper = ({ children }: { children: any }) =>
+      createElement(NetworkProvider, {
+        baseUrl: "https://api.example.com",
+        fetch: customFetch,
+        headers: { Authorization: "outer" },
+        graphQLConfig: { debounceTime: 500 },
+      }, createElement(NetworkProvider, {
+        baseUrl: "v2",
+        headers: { "X-Tenant": "inner" },
+        graphQLConfig: { debounceTime: 0 },
+      }, children));
+
+    const { result, waitForNextUpdate } = renderHook(
+      () => useGraphQL("graphql", "{ hello }"),
+      { wrapper }
+    );
+    await waitForNextUpdate();
+
+    expect(result.current.data).toEqual({ hello: "world" });
+    const [url, init] = customFetch.mock.calls[0];
+    expect(url).toBe("https://api.example.com/v2/graphql");
+    expect(init.headers).toEqual({
+      "Content-Type": "application/json",
+      Authorization: "outer",
+      "X-Tenant": "inner",
+    });
+  });
+});
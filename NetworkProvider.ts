@@ -0,0 +1,157 @@
+/**
+ * A React context provider that shares network settings with every `useFetch*`
+ * and `useGraphQL` hook rendered below it.
+ *
+ * Values set on the provider act as defaults: the hook's own config always wins.
+ * Nested providers merge with their parent – scalar values are overridden, headers
+ * are combined and a relative `baseUrl` is resolved against the parent's one.
+ *
+ * @param {string} [baseUrl] - Prefix applied to every relative URL passed to the hooks.
+ * @param {HeadersInit} [headers] - Headers sent with every request (e.g. auth headers).
+ * @param {typeof fetch} [fetch] - A custom `fetch` implementation used by the hooks.
+ * @param {QueryCache} [cache] - The cache used by the hooks, defaults to the shared `queryCache` in the browser, and to a cache of the provider's own on the server. Pass a cache created per request to prefetch and dehydrate it.
+ * @param {UseFetchConfig} [fetchConfig] - Default config for `useFetch` and its method variants.
+ * @param {GraphQLConfig} [graphQLConfig] - Default config for `useGraphQL`.
+ * @param {Interceptor[]} [interceptors] - Interceptors applied to every request, after the parent's ones.
+ *
+ * @example
+ * ```tsx
+ * <NetworkProvider
+ *   baseUrl="https://api.example.com"
+ *   headers={{ Authorization: `Bearer ${token}` }}
+ *   fetchConfig={{ retries: 1, timeout: 10000 }}
+ * >
+ *   <App />
+ * </NetworkProvider>
+ * ```
+ */
+import { createContext, createElement, useContext, useMemo, useState, ReactNode } from 'react';
+import type { UseFetchConfig } from './useFetch';
+import type { GraphQLConfig } from './useGraphQL';
+import { queryCache, createQueryCache, QueryCache } from './cache';
+import type { Interceptor } from './interceptors';
+
+interface NetworkConfig {
+  baseUrl?: string;
+  headers?: HeadersInit;
+  fetch?: typeof fetch;
+  cache?: QueryCache;
+  fetchConfig?: Omit<UseFetchConfig, 'runInFuture' | 'interceptors' | 'schema'>;
+  graphQLConfig?: Omit<GraphQLConfig, 'interceptors' | 'schema'>;
+  interceptors?: Interceptor[];
+}
+
+interface NetworkProviderProps extends NetworkConfig {
+  children?: ReactNode;
+}
+
+const ABSOLUTE_URL_PATTERN = /^([a-z][a-z\d+\-.]*:)?\/\//i;
+
+const NetworkContext = createContext<NetworkConfig>({});
+
+const toHeaderRecord = (headers: HeadersInit): Record<string, string> => {
+  const record: Record<string, string> = {};
+  if (Array.isArray(headers)) {
+    headers.forEach(([key, value]) => {
+      record[key] = value;
+    });
+  } else if (typeof (headers as Headers).forEach === 'function') {
+    // Headers instances, including polyfilled ones from another realm
+    (headers as Headers).forEach((value, key) => {
+      record[key] = value;
+    });
+  } else {
+    Object.keys(headers).forEach(key => {
+      record[key] = (headers as Record<string, string>)[key];
+    });
+  }
+  return record;
+};
+
+/**
+ * Merges several header sets from left to right. Header names are compared
+ * case-insensitively, so a later `authorization` replaces an earlier `Authorization`.
+ * Returns `undefined` when none of the inputs had headers.
+ */
+const mergeHeaders = (...sources: (HeadersInit | undefined)[]): Record<string, string> | undefined => {
+  let merged: Record<string, string> | undefined;
+  sources.forEach(source => {
+    if (!source) return;
+    merged = merged || {};
+    const record = toHeaderRecord(source);
+    Object.keys(record).forEach(key => {
+      Object.keys(merged!).forEach(existing => {
+        if (existing.toLowerCase() === key.toLowerCase()) {
+          delete merged![existing];
+        }
+      });
+      merged![key] = record[key];
+    });
+  });
+  return merged;
+};
+
+const resolveUrl = (baseUrl: string | undefined, url: string): string => {
+  if (!baseUrl || ABSOLUTE_URL_PATTERN.test(url)) {
+    return url;
+  }
+  if (!url) {
+    return baseUrl;
+  }
+  return `${baseUrl.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+};
+
+/**
+ * The cache used by hooks below `network`. Without a provider cache, browsers share
+ * `queryCache`, while on the server every call gets an empty cache of its own, so
+ * data fetched for one request never shows up in the response to another. Providers
+ * rendered on the server always have a cache, see `NetworkProvider`.
+ */
+const getNetworkCache = (network: NetworkConfig): QueryCache => {
+  if (network.cache) {
+    return network.cache;
+  }
+  return typeof window === 'undefined' ? createQueryCache() : queryCache;
+};
+
+const mergeNetworkConfig = (parent: NetworkConfig, child: NetworkConfig): NetworkConfig => ({
+  baseUrl: child.baseUrl !== undefined ? resolveUrl(parent.baseUrl, child.baseUrl) : parent.baseUrl,
+  headers: mergeHeaders(parent.headers, child.headers),
+  fetch: child.fetch || parent.fetch,
+  cache: child.cache || parent.cache,
+  fetchConfig: {
+    ...parent.fetchConfig,
+    ...child.fetchConfig,
+    headers: mergeHeaders(parent.fetchConfig?.headers, child.fetchConfig?.headers),
+  },
+  graphQLConfig: {
+    ...parent.graphQLConfig,
+    ...child.graphQLConfig,
+    headers: mergeHeaders(parent.graphQLConfig?.headers, child.graphQLConfig?.headers),
+  },
+  interceptors: [...(parent.interceptors || []), ...(child.interceptors || [])],
+});
+
+const NetworkProvider = ({ children, baseUrl, headers, fetch, cache, fetchConfig, graphQLConfig, interceptors }: NetworkProviderProps) => {
+  const parent = useContext(NetworkContext);
+  // rendered once per server request, and kept while suspended children render again
+  const [serverCache] = useState(() => (typeof window === 'undefined' && !cache && !parent.cache ? createQueryCache() : undefined));
+  const value = useMemo(
+    () => mergeNetworkConfig(parent, { baseUrl, headers, fetch, cache: cache || serverCache, fetchConfig, graphQLConfig, interceptors }),
+    [parent, baseUrl, headers, fetch, cache, serverCache, fetchConfig, graphQLConfig, interceptors]
+  );
+  return createElement(NetworkContext.Provider, { value }, children);
+};
+
+const useNetworkConfig = (): NetworkConfig => useContext(NetworkContext);
+
+export type { NetworkConfig, NetworkProviderProps };
+
+export {
+  NetworkProvider,
+  useNetworkConfig,
+  mergeHeaders,
+  resolveUrl,
+  getNetworkCache,
+  toHeaderRecord,
+};
@@ -0,0 +1,105 @@
+import { createElement } from "react";
+import { renderHook, act } from "@testing-library/react-hooks";
+import { useFetch } from "./useFetch";
+import { NetworkProvider } from "./NetworkProvider";
+import { createQueryCache, createFetchCacheKey, createGraphQLCacheKey } from "./cache";
+
+describe("queryCache", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should include method and body in fetch keys", () => {
+    const first = createFetchCacheKey("/api/users", "POST", JSON.stringify({ name: "a" }));
+    const second = createFetchCacheKey("/api/users", "POST", JSON.stringify({ name: "b" }));
+    expect(first).not.toBe(second);
+    expect(createFetchCacheKey("/api/users")).not.toBe(createFetchCacheKey("/api/users", "HEAD"));
+    expect(createGraphQLCacheKey("/graphql", "{ a }", { id: 1 })).not.toBe(createGraphQLCacheKey("/graphql", "{ a }", { id: 2 }));
+  });
+
+  it("should expire entries after cacheTime", () => {
+    const cache = createQueryCache();
+    const now = jest.spyOn(Date, "now").mockReturnValue(1000);
+    cache.set("key", "value", 500);
+    expect(cache.getQueryData("key")).toBe("value");
+
+    now.mockReturnValue(1500);
+    expect(cache.has("key")).toBe(false);
+  });
+
+  it("should report staleness from staleTime and invalidation", () => {
+    const cache = createQueryCache();
+    const now = jest.spyOn(Date, "now").mockReturnValue(0);
+    cache.set("key", "value");
+    expect(cache.isStale("key", 100)).toBe(false);
+
+    now.mockReturnValue(100);
+    expect(cache.isStale("key", 100)).toBe(true);
+    expect(cache.isStale("key", Infinity)).toBe(false);
+
+    cache.invalidate(key => key === "key");
+    expect(cache.isStale("key", Infinity)).toBe(true);
+  });
+
+  it("should update data with setQueryData and notify subscribers", () => {
+    const cache = createQueryCache();
+    const listener = jest.fn();
+    cache.set("list", [1]);
+    const unsubscribe = cache.subscribe("list", listener);
+
+    cache.setQueryData<number[]>("list", previous => [...(previous || []), 2]);
+    expect(cache.getQueryData("list")).toEqual([1, 2]);
+    expect(listener).toHaveBeenCalledWith("updated", expect.objectContaining({ data: [1, 2] }));
+
+    unsubscribe();
+    cache.clear();
+    expect(cache.keys()).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should return stale data and revalidate in the background", async () => {
+    const url = "https://api.example.com/users";
+    const cache = createQueryCache();
+    cache.set(createFetchCacheKey(url), ["cached"]);
+    const customFetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ["fresh"],
+    } as Response);
+    const wrapper = ({ children }: { children: any }) =>
+      createElement(NetworkProvider, { cache, fetch: customFetch }, children);
+
+    const { result, waitFor } = renderHook(
+      () => useFetch(url, { useCache: true, staleTime: 0, debounceTime: 0 }),
+      { wrapper }
+    );
+
+    expect(result.current.data).toEqual(["cached"]);
+    expect(result.current.loading).toBe(false);
+    expect(result.current.isStale).toBe(true);
+
+    await waitFor(() => expect(result.current.data).toEqual(["fresh"]));
+    expect(result.current.isStale).toBe(false);
+    expect(customFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should refetch mounted hooks when their key is invalidated", async () => {
+    const url = "https://api.example.com/users";
+    const cache = createQueryCache();
+    const customFetch = jest.fn()
+      .mockResolvedValueOnce({ ok: true, json: async () => ["before"] } as Response)
+      .mockResolvedValueOnce({ ok: true, json: async () => ["after"] } as Response);
+    const wrapper = ({ children }: { children: any }) =>
+      createElement(NetworkProvider, { cache, fetch: customFetch }, children);
+
+    const { result, waitFor } = renderHook(
+      () => useFetch(url, { useCache: true, debounceTime: 0 }),
+      { wrapper }
+    );
+    await waitFor(() => expect(result.current.data).toEqual(["before"]));
+
+    act(() => cache.invalidate(createFetchCacheKey(url)));
+
+    await waitFor(() => expect(result.current.data).toEqual(["after"]));
+    expect(customFetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * The cache shared by `useFetch` and `useGraphQL`.
+ *
+ * Entries are stored under a string key that includes everything that makes a
+ * request unique (method, URL and body for REST; URL, query and variables for
+ * GraphQL). Each entry remembers when it was written so hooks can tell whether
+ * it is still fresh (`staleTime`) and when it should be dropped (`cacheTime`).
+ * Expired entries are removed lazily on read, so no timers are kept alive.
+ *
+ * The cache also owns the in-flight request registry (`dedupe`), so hooks that
+ * render the same key at the same time share a single request.
+ *
+ * Hooks subscribe to the keys they render, which lets code outside of React
+ * update (`setQueryData`) or invalidate (`invalidate`) what is on screen.
+ *
+ * @example
+ * ```ts
+ * import { queryCache, createFetchCacheKey } from 'network-react';
+ *
+ * // after creating a user, refetch every mounted hook that lists users
+ * queryCache.invalidate(key => key.includes('/api/users'));
+ *
+ * // or patch the cached list in place
+ * queryCache.setQueryData<User[]>(
+ *   createFetchCacheKey('https://api.example.com/api/users'),
+ *   users => [...(users || []), newUser]
+ * );
+ * ```
+ */
+import { createRequestDeduper, RequestDeduper } from './dedupe';
+
+interface CacheEntry<T = any> {
+  data: T;
+  updatedAt: number;
+  expiresAt: number;
+  isInvalidated: boolean;
+}
+
+type CacheEvent = 'updated' | 'invalidated' | 'removed';
+
+type CacheListener = (event: CacheEvent, entry?: CacheEntry) => void;
+
+type CacheKeyPredicate = (key: string, entry: CacheEntry) => boolean;
+
+type CacheUpdater<T> = T | ((previous: T | undefined) => T);
+
+interface QueryCache {
+  get: <T>(key: string) => CacheEntry<T> | undefined;
+  has: (key: string) => boolean;
+  /** `updatedAt` is when the data was fetched, by default now. */
+  set: <T>(key: string, data: T, cacheTime?: number, updatedAt?: number) => void;
+  isStale: (key: string, staleTime: number) => boolean;
+  getQueryData: <T>(key: string) => T | undefined;
+  setQueryData: <T>(key: string, updater: CacheUpdater<T>, cacheTime?: number) => void;
+  invalidate: (target: string | CacheKeyPredicate) => void;
+  remove: (key: string) => void;
+  clear: () => void;
+  keys: () => string[];
+  subscribe: (key: string, listener: CacheListener) => () => void;
+  dedupe: RequestDeduper;
+}
+
+const DEFAULT_CACHE_TIME = Infinity;
+
+/**
+ * Whether `body` is part of the cache key. FormData, Blob, buffers and streams can't be
+ * serialized cheaply, so requests sending them are neither cached nor deduplicated.
+ */
+const isSerializableBody = (body?: BodyInit | null): boolean =>
+  body === undefined || body === null || typeof body === 'string'
+  || (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams);
+
+const serializeBody = (body?: BodyInit | null): string | null => {
+  if (body === undefined || body === null) return null;
+  if (typeof body === 'string') return body;
+  if (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) return body.toString();
+  // raw bodies share a key per method + url, see `isSerializableBody`
+  return Object.prototype.toString.call(body);
+};
+
+const createFetchCacheKey = (url: string, method: string = 'GET', body?: BodyInit | null): string =>
+  JSON.stringify([method.toUpperCase(), url, serializeBody(body)]);
+
+const createGraphQLCacheKey = (url: string, query: string, variables: Record<string, any> = {}, operationName?: string): string =>
+  JSON.stringify(operationName ? ['GRAPHQL', url, query, variables, operationName] : ['GRAPHQL', url, query, variables]);
+
+/** Key for one page of an infinite query, wrapping the key of the request that loads it. */
+const createPageCacheKey = (requestKey: string): string =>
+  JSON.stringify(['PAGE', requestKey]);
+
+const createQueryCache = (): QueryCache => {
+  const entries = new Map<string, CacheEntry>();
+  const listeners = new Map<string, Set<CacheListener>>();
+
+  const notify = (key: string, event: CacheEvent, entry?: CacheEntry) => {
+    listeners.get(key)?.forEach(listener => listener(event, entry));
+  };
+
+  const get = <T>(key: string): CacheEntry<T> | undefined => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      notify(key, 'removed');
+      return undefined;
+    }
+    return entry;
+  };
+
+  const set = <T>(key: string, data: T, cacheTime: number = DEFAULT_CACHE_TIME, updatedAt: number = Date.now()) => {
+    const entry: CacheEntry<T> = { data, updatedAt, expiresAt: Date.now() + cacheTime, isInvalidated: false };
+    entries.set(key, entry);
+    notify(key, 'updated', entry);
+  };
+
+  const isStale = (key: string, staleTime: number) => {
+    const entry = get(key);
+    if (!entry) return true;
+    return entry.isInvalidated || Date.now() - entry.updatedAt >= staleTime;
+  };
+
+  const getQueryData = <T>(key: string) => get<T>(key)?.data;
+
+  const setQueryData = <T>(key: string, updater: CacheUpdater<T>, cacheTime?: number) => {
+    const data = typeof updater === 'function'
+      ? (updater as (previous: T | undefined) => T)(getQueryData<T>(key))
+      : updater;
+    set(key, data, cacheTime);
+  };
+
+  const invalidate = (target: string | CacheKeyPredicate) => {
+    const matches = typeof target === 'string'
+      ? (key: string) => key === target
+      : (key: string) => target(key, entries.get(key)!);
+    Array.from(entries.keys()).forEach(key => {
+      const entry = get(key);
+      if (!entry || !matches(key)) return;
+      entry.isInvalidated = true;
+      notify(key, 'invalidated', entry);
+    });
+  };
+
+  const remove = (key: string) => {
+    if (entries.delete(key)) {
+      notify(key, 'removed');
+    }
+  };
+
+  const clear = () => {
+    Array.from(entries.keys()).forEach(remove);
+  };
+
+  const subscribe = (key: string, listener: CacheListener) => {
+    if (!listeners.has(key)) {
+      listeners.set(key, new Set());
+    }
+    listeners.get(key)!.add(listener);
+    return () => {
+      const keyListeners = listeners.get(key);
+      keyListeners?.delete(listener);
+      if (keyListeners && keyListeners.size === 0) {
+        listeners.delete(key);
+      }
+    };
+  };
+
+  return {
+    get,
+    has: key => get(key) !== undefined,
+    set,
+    isStale,
+    getQueryData,
+    setQueryData,
+    invalidate,
+    remove,
+    clear,
+    keys: () => Array.from(entries.keys()),
+    subscribe,
+    dedupe: createRequestDeduper(),
+  };
+};
+
+const queryCache = createQueryCache();
+
+export type { CacheEntry, CacheEvent, CacheListener, CacheKeyPredicate, CacheUpdater, QueryCache };
+
+export {
+  createQueryCache,
+  createFetchCacheKey,
+  isSerializableBody,
+  createGraphQLCacheKey,
+  createPageCacheKey,
+  queryCache,
+};
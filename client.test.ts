@@ -0,0 +1,104 @@
+import { createClient } from "./client";
+import { createQueryCache } from "./cache";
+import { AbortError, GraphQLError, HttpError } from "./errors";
+import { createMockTransport, flushTimers } from "./testing";
+
+describe("createClient", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  const clientFor = (mock: ReturnType<typeof createMockTransport>) =>
+    createClient({ fetch: mock.fetch, cache: createQueryCache(), baseUrl: "https://api.example.com", graphQLUrl: "/graphql" });
+
+  it("should retry requests and answer from the cache like the hooks", async () => {
+    jest.useFakeTimers();
+    const mock = createMockTransport().get("/api/users/{id}", [
+      { status: 503 },
+      request => ({ body: { id: Number(request.params.id) } }),
+    ]);
+    const client = clientFor(mock);
+
+    const user = client.request("/api/users/{id}", { params: { id: 1 }, useCache: true, retryDelay: 10 });
+    await flushTimers();
+    await expect(user).resolves.toEqual({ id: 1 });
+    expect(mock.requests()).toHaveLength(2);
+
+    await expect(client.request("/api/users/{id}", { params: { id: 1 }, useCache: true })).resolves.toEqual({ id: 1 });
+    expect(mock.requests()).toHaveLength(2);
+    expect(client.cache.keys()).toHaveLength(1);
+  });
+
+  it("should follow the HTTP conventions", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    const mock = createMockTransport()
+      .post("/api/users", { status: 503 })
+      .on({ method: "HEAD", url: "/api/users" }, { status: 200 });
+    const client = clientFor(mock);
+
+    // non-idempotent requests are not retried unless asked to
+    await expect(client.request("/api/users", { method: "POST", body: "{}" })).rejects.toBeInstanceOf(HttpError);
+    expect(mock.requests({ method: "POST", url: "/api/users" })).toHaveLength(1);
+
+    await client.request("/api/users", { method: "HEAD", body: "{}", responseType: "text" });
+    expect(mock.requests({ method: "HEAD", url: "/api/users" })[0].body).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith("HEAD requests should not have a body. Ignoring body.");
+  });
+
+  it("should neither cache nor share requests with raw bodies", async () => {
+    let uploads = 0;
+    const mock = createMockTransport().post("/api/files", () => ({ body: { id: ++uploads } }));
+    const client = clientFor(mock);
+    const upload = (name: string) => {
+      const body = new FormData();
+      body.append("name", name);
+      return client.request("/api/files", { method: "POST", body, useCache: true });
+    };
+
+    await expect(upload("a.txt")).resolves.toEqual({ id: 1 });
+    await expect(upload("b.txt")).resolves.toEqual({ id: 2 });
+    expect(client.cache.keys()).toHaveLength(0);
+  });
+
+  it("should send GraphQL queries to graphQLUrl", async () => {
+    const mock = createMockTransport()
+      .graphql({ operationName: "User" }, { body: { errors: [{ message: "Not found" }] } })
+      .graphql({ operationName: "User", variables: { id: 1 } }, { body: { data: { user: { name: "Ada" } } } });
+    const client = clientFor(mock);
+    const query = "query User($id: ID!) { user(id: $id) { name } }";
+
+    await expect(client.graphql(query, { id: 1 }, { operationName: "User" })).resolves.toEqual({ user: { name: "Ada" } });
+    await expect(client.graphql(query, { id: 2 }, { operationName: "User" })).rejects.toBeInstanceOf(GraphQLError);
+    expect(mock.requests()[0].url).toBe("https://api.example.com/graphql");
+  });
+
+  it("should not resend GraphQL mutations unless asked to", async () => {
+    jest.useFakeTimers();
+    const mock = createMockTransport().graphql({ operationName: "Rename" }, { status: 503 });
+    const client = clientFor(mock);
+    const mutation = "mutation Rename($id: ID!) { renameUser(id: $id) { id } }";
+
+    const renamed = client.graphql(mutation, { id: 1 }, { operationName: "Rename" });
+    await flushTimers();
+    await expect(renamed).rejects.toBeInstanceOf(HttpError);
+    expect(mock.requests()).toHaveLength(1);
+
+    const retried = client.graphql(mutation, { id: 1 }, { operationName: "Rename", retry: 1, retryDelay: 10 });
+    await flushTimers();
+    await expect(retried).rejects.toBeInstanceOf(HttpError);
+    expect(mock.requests()).toHaveLength(3);
+  });
+
+  it("should reject with an AbortError when the signal aborts", async () => {
+    const mock = createMockTransport().get("/api/slow", { delay: 1000, body: "late" });
+    const client = clientFor(mock);
+    const controller = new AbortController();
+
+    const request = client.request("/api/slow", { signal: controller.signal });
+    controller.abort();
+
+    await expect(request).rejects.toBeInstanceOf(AbortError);
+    await expect(client.request("/api/slow", { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * A client sending requests outside of components – in Redux thunks, route loaders,
+ * service workers or plain scripts – with the rules of `useFetch` and `useGraphQL`.
+ * The hooks are built on it, so a request behaves the same wherever it is sent:
+ *
+ * - the `baseUrl`, headers, `fetch`, interceptors and `fetchConfig`/`graphQLConfig`
+ *   defaults it is created with act like those of a `NetworkProvider`;
+ * - retries, timeouts, parsing, `schema` validation, the offline queue and the HTTP
+ *   conventions (`followConventions`) apply as they do in the hooks;
+ * - with `useCache`, fresh entries of its cache are returned without a request, and
+ *   results are written to it, under the same keys the hooks read;
+ * - identical requests in flight at the same time are shared (`dedupe`).
+ *
+ * `client.request` and `client.graphql` resolve with the data or reject with a
+ * `NetworkError`. A `signal` option cancels the call with an `AbortError`.
+ *
+ * `prepareRequest`/`prepareGraphQL` resolve a request without sending it, for code that
+ * manages the request lifecycle itself, like the hooks.
+ *
+ * @example
+ * ```ts
+ * const client = createClient({ baseUrl: 'https://api.example.com', graphQLUrl: '/graphql', headers: { Authorization: `Bearer ${token}` } });
+ *
+ * export const loadUser = (id: string) => client.request<User>('/api/users/{id}', { params: { id }, useCache: true });
+ * export const loadViewer = () => client.graphql<{ viewer: User }>(VIEWER_QUERY);
+ * ```
+ */
+import { mergeHeaders, resolveUrl, getNetworkCache, NetworkConfig } from './NetworkProvider';
+import { createFetchCacheKey, createGraphQLCacheKey, isSerializableBody, QueryCache } from './cache';
+import { runUnshared, DedupedRequest, RequestRunner } from './dedupe';
+import { fetchWithRetry, onSignalAbort, RequestEmitter, RequestOptions } from './request';
+import { AbortError, GraphQLError, createHttpError } from './errors';
+import { parseResponse, FetchResponseType } from './parse';
+import { getInterceptedFetch } from './interceptors';
+import { validateData } from './validate';
+import { addTypename } from './normalizedCache';
+import { createGraphQLFetch } from './graphqlTransport';
+import { trackDownloadProgress, createXhrFetch, Progress, ProgressCallback } from './progress';
+import { sendOrQueue } from './offlineQueue';
+import { buildUrl } from './url';
+import { trackRequest, emitNetworkEvent } from './events';
+import type { RefetchOption } from './refetch';
+import type { UseFetchConfig } from './useFetch';
+import type { GraphQLConfig } from './useGraphQL';
+
+/*
+### Properties of request methods
+source: https://en.wikipedia.org/wiki/HTTP#Request_methods
+
+| Request method | RFC                                                      | Request has payload body  | Response has payload body  | Safe | Idempotent  | Cacheable |
+|----------------|----------------------------------------------------------|---------------------------|----------------------------|------|-------------|-----------|
+| GET            | [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110.html)  | Optional                  | Yes                        | Yes  | Yes         | Yes       |
+| HEAD           | [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110.html)  | Optional                  | No                         | Yes  | Yes         | Yes       |
+| POST           | [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110.html)  | Yes                       | Yes                        | No   | No          | Yes       |
+| PUT            | [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110.html)  | Yes                       | Yes                        | No   | Yes         | No        |
+| DELETE         | [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110.html)  | Optional                  | Yes                        | No   | Yes         | No        |
+| CONNECT        | [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110.html)  | Optional                  | Yes                        | No   | No          | No        |
+| OPTIONS        | [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110.html)  | Optional                  | Yes                        | Yes  | Yes         | No        |
+| TRACE          | [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110.html)  | No                        | Yes                        | Yes  | Yes         | No        |
+| PATCH          | [RFC 5789](https://www.rfc-editor.org/rfc/rfc5789.html)  | Yes                       | Yes                        | No   | No          | No        |
+
+*/
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_MAX_RETRY_DELAY = 30000;
+const DEFAULT_RETRY_BACKOFF = 2;
+const DEFAULT_RETRY_JITTER = true;
+const DEFAULT_TIMEOUT = 5000;
+const DEFAULT_USE_CACHE = false;
+const DEFAULT_STALE_TIME = Infinity;
+const DEFAULT_CACHE_TIME = Infinity;
+const DEFAULT_DEDUPE = true;
+const DEFAULT_HTTP_METHOD = 'GET';
+const DEFAULT_GRAPHQL_METHOD = 'POST';
+const DEFAULT_FOLLOW_CONVENTIONS = true;
+const DEFAULT_RESPONSE_TYPE: FetchResponseType = 'json';
+const DEFAULT_TRACK_PROGRESS = false;
+const DEFAULT_PERSISTED_QUERIES = false;
+
+const CACHE_ALLOWED_METHOD = ['GET', 'HEAD', 'POST'];
+const SAFE_METHOD = ['GET', 'HEAD', 'OPTIONS', 'TRACE'];
+const IDEMPOTENT_METHOD = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS', 'TRACE'];
+// the operation type of a document, after any leading comments
+const MUTATION_OPERATION = /^\s*(#.*\s+)*mutation\b/;
+
+const sameKey = (key: string) => key;
+
+interface ClientConfig extends NetworkConfig {
+  /** The endpoint of `client.graphql`, resolved against `baseUrl`. */
+  graphQLUrl?: string;
+}
+
+/** Hook-only options (debouncing, refetch triggers, suspense...) don't apply to `client.request`. */
+type RequestConfig<T = any> = Omit<UseFetchConfig<T>, 'runInFuture' | 'enabled' | 'suspense' | 'debounceTime' | RefetchOption>;
+
+interface ClientGraphQLConfig<T = any> extends Omit<GraphQLConfig<T>, 'variables' | 'enabled' | 'suspense' | 'debounceTime' | RefetchOption> {
+  /** The endpoint, instead of the client's `graphQLUrl`. */
+  url?: string;
+}
+
+interface PrepareOptions {
+  /** Derives the cache key from the request's own, e.g. `createPageCacheKey` for the pages of an infinite query. */
+  cacheKey?: (requestKey: string) => string;
+  /** Turns the parsed data into the result, with the response, e.g. to keep its headers. */
+  select?: (data: any, response: Response) => any;
+}
+
+interface PreparedRequest<T> {
+  /** The cache key, the same for every hook and client call sending this request. */
+  key: string;
+  url: string;
+  method: string;
+  useCache: boolean;
+  staleTime: number;
+  cacheTime: number;
+  dedupe: boolean;
+  /** Reads the cached result, rebuilt from the normalized cache for GraphQL. */
+  read: () => T | undefined;
+  /** Sends the request and reports it to `networkEvents`. With `useCache`, the result is cached. */
+  run: RequestRunner<T>;
+}
+
+interface NetworkClient {
+  cache: QueryCache;
+  request: <T = any>(url: string, config?: RequestConfig<T>) => Promise<T>;
+  graphql: <T = any>(query: string, variables?: Record<string, any>, config?: ClientGraphQLConfig<T>) => Promise<T>;
+  prepareRequest: <T = any>(url: string, config?: UseFetchConfig<T>, options?: PrepareOptions) => PreparedRequest<T>;
+  prepareGraphQL: <T = any>(url: string, query: string, config?: GraphQLConfig<T>, options?: PrepareOptions) => PreparedRequest<T>;
+}
+
+/**
+ * Creates a client for `config`, which takes the props of `NetworkProvider`. Without a
+ * `cache`, browsers share `queryCache`, while on the server the client gets its own.
+ */
+const createClient = (config: ClientConfig = {}): NetworkClient => {
+  const { graphQLUrl = '', ...network } = config;
+  const cache = getNetworkCache(network);
+
+  const prepareRequest = <T>(url: string, requestConfig?: UseFetchConfig<T>, { cacheKey = sameKey, select }: PrepareOptions = {}): PreparedRequest<T> => {
+    let {
+      followConventions = DEFAULT_FOLLOW_CONVENTIONS,
+      retries = DEFAULT_RETRIES,
+      retry = retries,
+      retryDelay = DEFAULT_RETRY_DELAY,
+      maxRetryDelay = DEFAULT_MAX_RETRY_DELAY,
+      retryBackoff = DEFAULT_RETRY_BACKOFF,
+      retryJitter = DEFAULT_RETRY_JITTER,
+      timeout = DEFAULT_TIMEOUT,
+      useCache = DEFAULT_USE_CACHE,
+      staleTime = DEFAULT_STALE_TIME,
+      cacheTime = DEFAULT_CACHE_TIME,
+      dedupe = DEFAULT_DEDUPE,
+      method = DEFAULT_HTTP_METHOD,
+      responseType = DEFAULT_RESPONSE_TYPE,
+      parse,
+      schema,
+      suspense,
+      trackProgress = DEFAULT_TRACK_PROGRESS,
+      onUploadProgress,
+      onDownloadProgress,
+      offlineQueue,
+      interceptors,
+      params,
+      query,
+      // hook-only options, not sent with the request
+      debounceTime,
+      runInFuture,
+      enabled,
+      refetchInterval,
+      refetchIntervalInBackground,
+      refetchOnWindowFocus,
+      refetchOnReconnect,
+      signal,
+      ...options
+    } = {
+      ...network.fetchConfig,
+      ...requestConfig,
+      headers: mergeHeaders(network.headers, network.fetchConfig?.headers, requestConfig?.headers),
+    } as UseFetchConfig<T>;
+    const requestUrl = resolveUrl(network.baseUrl, buildUrl(url, params, query));
+
+    if (suspense) {
+      // suspended components resume from the cache
+      useCache = true;
+    }
+
+    // reported when the request is sent, not every time it is prepared
+    const warnings: string[] = [];
+    if (followConventions) {
+      if (method === 'HEAD' && options.body) {
+        warnings.push('HEAD requests should not have a body. Ignoring body.');
+        delete options.body;
+      }
+      if (!CACHE_ALLOWED_METHOD.includes(method) && useCache) {
+        warnings.push(`Caching is not allowed for ${method} requests. Ignoring cache.`);
+        useCache = false;
+      }
+      if (!SAFE_METHOD.includes(method)) {
+        dedupe = false;
+      }
+      if (!IDEMPOTENT_METHOD.includes(method) && requestConfig?.retry === undefined && requestConfig?.retries === undefined) {
+        retry = 0;
+      }
+    }
+
+    if (!isSerializableBody(options.body)) {
+      // every upload of the same URL would share a key, and be answered with another's result
+      useCache = false;
+      dedupe = false;
+    }
+
+    const key = cacheKey(createFetchCacheKey(requestUrl, method, options.body));
+    const requestOptions: RequestOptions = { retry, retryDelay, maxRetryDelay, retryBackoff, retryJitter, timeout };
+    const trackUpload = trackProgress || !!onUploadProgress;
+    const trackDownload = trackProgress || !!onDownloadProgress;
+    const init = { ...options, method };
+
+    const run = trackRequest<T>({ key, url: requestUrl, method, kind: 'fetch', body: options.body }, (signal, emit) => {
+      warnings.forEach(warning => {
+        console.warn(warning);
+        console.warn('set followConventions to disable this feature.');
+      });
+      const reportProgress = (progress: Progress) => emit({ type: 'progress', progress });
+      // XMLHttpRequest reports both directions, fetch only lets us count the downloaded body
+      const uploads = trackUpload && options.body !== undefined && options.body !== null;
+      const transport = getInterceptedFetch(uploads ? { ...network, fetch: createXhrFetch(reportProgress) } : network, interceptors);
+      const handleResponse = async (response: Response) => {
+        if (!response.ok) {
+          throw await createHttpError(response);
+        }
+        if (trackDownload && !uploads) {
+          response = trackDownloadProgress(response, reportProgress);
+        }
+        const parsed = parse ? await parse(response) : await parseResponse(response, responseType, method);
+        const data = schema ? validateData(schema, parsed) : parsed;
+        const result: T = select ? select(data, response) : data;
+        if (useCache) {
+          cache.set(key, result, cacheTime);
+        }
+        return result;
+      };
+      return sendOrQueue(
+        // reads are never queued, and only idempotent writes are queued after a timeout
+        SAFE_METHOD.includes(method) ? undefined : offlineQueue,
+        requestUrl,
+        init,
+        IDEMPOTENT_METHOD.includes(method),
+        () => fetchWithRetry(transport, requestUrl, init, requestOptions, signal, handleResponse, emit),
+        handleResponse,
+        signal,
+        emit
+      );
+    });
+
+    return { key, url: requestUrl, method, useCache, staleTime, cacheTime, dedupe, read: () => cache.getQueryData<T>(key), run };
+  };
+
+  const prepareGraphQL = <T>(url: string, query: string, graphQLConfig?: GraphQLConfig<T>, { cacheKey = sameKey, select }: PrepareOptions = {}): PreparedRequest<T> => {
+    const {
+      variables = {},
+      operationName,
+      method = DEFAULT_GRAPHQL_METHOD,
+      persistedQueries = DEFAULT_PERSISTED_QUERIES,
+      retries = DEFAULT_RETRIES,
+      retry = retries,
+      retryDelay = DEFAULT_RETRY_DELAY,
+      maxRetryDelay = DEFAULT_MAX_RETRY_DELAY,
+      retryBackoff = DEFAULT_RETRY_BACKOFF,
+      retryJitter = DEFAULT_RETRY_JITTER,
+      timeout = DEFAULT_TIMEOUT,
+      useCache: useCacheOption = DEFAULT_USE_CACHE,
+      staleTime = DEFAULT_STALE_TIME,
+      cacheTime = DEFAULT_CACHE_TIME,
+      dedupe = DEFAULT_DEDUPE,
+      suspense,
+      schema,
+      normalizedCache,
+      interceptors,
+      headers,
+    } = {
+      ...network.graphQLConfig,
+      ...graphQLConfig,
+      headers: mergeHeaders(
+        { 'Content-Type': 'application/json' },
+        network.headers,
+        network.graphQLConfig?.headers,
+        graphQLConfig?.headers
+      ),
+    } as GraphQLConfig<T>;
+    const requestUrl = resolveUrl(network.baseUrl, url);
+    // suspended components resume from the cache
+    const useCache = !!suspense || useCacheOption;
+    const key = cacheKey(createGraphQLCacheKey(requestUrl, query, variables, operationName));
+    const document = normalizedCache ? addTypename(query) : query;
+    // like non-idempotent REST requests, a mutation sent again may apply twice
+    const mayRetry = !MUTATION_OPERATION.test(query) || graphQLConfig?.retry !== undefined || graphQLConfig?.retries !== undefined;
+    const requestOptions: RequestOptions = { retry: mayRetry ? retry : 0, retryDelay, maxRetryDelay, retryBackoff, retryJitter, timeout };
+
+    const run = trackRequest<T>({ key, url: requestUrl, method, kind: 'graphql', body: { operationName, variables } }, (signal, emit) => fetchWithRetry(
+      createGraphQLFetch(getInterceptedFetch(network, interceptors), { query: document, variables, operationName }, { method, persistedQueries }),
+      requestUrl,
+      { headers },
+      requestOptions,
+      signal,
+      async response => {
+        if (!response.ok) {
+          throw await createHttpError(response);
+        }
+
+        const json = await response.json();
+        if (json.errors) {
+          throw new GraphQLError(json.errors, json.data);
+        }
+
+        let result: T = schema ? validateData(schema, json.data) : json.data;
+        if (normalizedCache) {
+          normalizedCache.write(key, result);
+          result = normalizedCache.read<T>(key) ?? result;
+        }
+        if (select) {
+          result = select(result, response);
+        }
+        if (useCache) {
+          cache.set(key, result, cacheTime);
+        }
+        return result;
+      },
+      emit
+    ));
+
+    // normalized results are rebuilt from the entity store, so they reflect entity updates
+    const read = () => normalizedCache?.read<T>(key) ?? cache.getQueryData<T>(key);
+    return { key, url: requestUrl, method, useCache, staleTime, cacheTime, dedupe, read, run };
+  };
+
+  /** Answers from fresh cache entries, or sends the request, shared with identical ones in flight. */
+  const send = async <T>(prepared: PreparedRequest<T>, signal?: AbortSignal | null, listener?: RequestEmitter): Promise<T> => {
+    const { key, useCache, staleTime, dedupe } = prepared;
+    if (useCache) {
+      const hit = cache.has(key);
+      emitNetworkEvent({ type: 'cache', key, hit, stale: hit && cache.isStale(key, staleTime) });
+      if (hit && !cache.isStale(key, staleTime)) {
+        return prepared.read() as T;
+      }
+    }
+    if (signal?.aborted) {
+      throw new AbortError();
+    }
+    const request: DedupedRequest<T> = dedupe ? cache.dedupe(key, prepared.run, listener) : runUnshared(prepared.run, listener);
+    // a shared request keeps running for the others, this call stops waiting for it
+    let stopListening: () => void = () => undefined;
+    const cancelled = new Promise<never>((_resolve, reject) => {
+      stopListening = onSignalAbort(signal, () => {
+        request.release();
+        reject(new AbortError());
+      });
+    });
+    try {
+      return await Promise.race([request.promise, cancelled]);
+    } finally {
+      stopListening();
+      request.release();
+    }
+  };
+
+  const progressListener = (onUploadProgress?: ProgressCallback, onDownloadProgress?: ProgressCallback): RequestEmitter => event => {
+    if (event.type === 'progress') {
+      (event.progress.direction === 'upload' ? onUploadProgress : onDownloadProgress)?.(event.progress);
+    }
+  };
+
+  return {
+    cache,
+    request: <T>(url: string, requestConfig?: RequestConfig<T>) =>
+      send(
+        prepareRequest<T>(url, requestConfig),
+        requestConfig?.signal,
+        progressListener(requestConfig?.onUploadProgress, requestConfig?.onDownloadProgress)
+      ),
+    graphql: <T>(query: string, variables?: Record<string, any>, { url = graphQLUrl, ...graphQLConfig }: ClientGraphQLConfig<T> = {}) =>
+      send(prepareGraphQL<T>(url, query, { ...graphQLConfig, variables }), graphQLConfig.signal),
+    prepareRequest,
+    prepareGraphQL,
+  };
+};
+
+export type { ClientConfig, RequestConfig, ClientGraphQLConfig, PrepareOptions, PreparedRequest, NetworkClient };
+
+export {
+  createClient,
+  IDEMPOTENT_METHOD,
+};
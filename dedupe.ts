@@ -0,0 +1,104 @@
+/**
+ * In-flight request deduplication.
+ *
+ * Every caller asking for the same key while a request is running subscribes to
+ * the same promise instead of starting its own request. Events emitted by the
+ * request (such as retries) are forwarded to every subscriber. The underlying
+ * request is only aborted once every subscriber has released it (unmounted or
+ * called `abort`).
+ */
+import type { RequestEmitter, RequestEvent } from './request';
+
+type RequestRunner<T> = (signal: AbortSignal, emit: RequestEmitter) => Promise<T>;
+
+interface InflightRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  listeners: Set<RequestEmitter>;
+  subscribers: number;
+  settled: boolean;
+}
+
+interface DedupedRequest<T> {
+  promise: Promise<T>;
+  release: () => void;
+}
+
+type RequestDeduper = <T>(key: string, run: RequestRunner<T>, listener?: RequestEmitter) => DedupedRequest<T>;
+
+const createRequestDeduper = (): RequestDeduper => {
+  const inflight = new Map<string, InflightRequest<any>>();
+
+  return <T>(key: string, run: RequestRunner<T>, listener?: RequestEmitter): DedupedRequest<T> => {
+    let request: InflightRequest<T> | undefined = inflight.get(key);
+
+    if (!request) {
+      const current: InflightRequest<T> = {
+        promise: undefined as unknown as Promise<T>,
+        controller: new AbortController(),
+        listeners: new Set(),
+        subscribers: 0,
+        settled: false,
+      };
+      const settle = () => {
+        current.settled = true;
+        if (inflight.get(key) === current) {
+          inflight.delete(key);
+        }
+      };
+      const emit = (event: RequestEvent) => {
+        current.listeners.forEach(notify => notify(event));
+      };
+      inflight.set(key, current);
+      current.promise = run(current.controller.signal, emit).then(
+        result => {
+          settle();
+          return result;
+        },
+        error => {
+          settle();
+          throw error;
+        }
+      );
+      request = current;
+    }
+
+    const subscribed = request;
+    subscribed.subscribers++;
+    if (listener) {
+      subscribed.listeners.add(listener);
+    }
+    let released = false;
+
+    const release = () => {
+      if (released) return;
+      released = true;
+      subscribed.subscribers--;
+      if (listener) {
+        subscribed.listeners.delete(listener);
+      }
+      if (subscribed.subscribers === 0 && !subscribed.settled) {
+        if (inflight.get(key) === subscribed) {
+          inflight.delete(key);
+        }
+        subscribed.controller.abort();
+      }
+    };
+
+    return { promise: subscribed.promise, release };
+  };
+};
+
+/** Runs `run` without sharing it, for requests that must not be deduplicated. */
+const runUnshared = <T>(run: RequestRunner<T>, listener?: RequestEmitter): DedupedRequest<T> => {
+  const controller = new AbortController();
+  const emit = (event: RequestEvent) => listener?.(event);
+  return { promise: run(controller.signal, emit), release: () => controller.abort() };
+};
+
+export type { DedupedRequest, RequestDeduper, RequestRunner };
+
+export {
+  createRequestDeduper,
+  runUnshared,
+};
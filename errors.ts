@@ -0,0 +1,151 @@
+/**
+ * Errors returned by `useFetch` and `useGraphQL`.
+ *
+ * Every error extends `NetworkError`, so `error.message` carries the same text the
+ * hooks used to return as a plain string (and `${error}` still renders it), while
+ * the subclasses keep the details needed to react to a failure:
+ *
+ * - `HttpError`: a non-2xx response, with `status`, `headers` and the parsed `body`.
+ * - `TimeoutError`: the attempt took longer than the configured `timeout`.
+ * - `AbortError`: the request was cancelled (unmount, `abort()` or a newer request).
+ * - `NetworkFailureError`: `fetch` itself failed (offline, DNS, CORS...).
+ * - `GraphQLError`: the server answered with `errors`, alongside any partial `data`.
+ * - `ValidationError`: the response did not match the hook's `schema`, with the `issues` found.
+ *
+ * @example
+ * ```tsx
+ * const { error } = useFetchPost('/api/users', { body });
+ * if (error instanceof HttpError && error.status === 422) {
+ *   return <FieldErrors errors={error.body.errors} />;
+ * }
+ * ```
+ */
+import { parseResponse } from './parse';
+import { toHeaderRecord } from './NetworkProvider';
+
+interface GraphQLFormattedError {
+  message: string;
+  locations?: { line: number; column: number }[];
+  path?: (string | number)[];
+  extensions?: Record<string, any>;
+}
+
+class NetworkError extends Error {
+  cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'NetworkError';
+    this.cause = cause;
+  }
+
+  toString() {
+    return this.message;
+  }
+}
+
+class HttpError<B = any> extends NetworkError {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body?: B;
+
+  constructor(status: number, statusText: string, headers: Record<string, string> = {}, body?: B) {
+    super(`Error: ${status} ${statusText}`);
+    this.name = 'HttpError';
+    this.status = status;
+    this.statusText = statusText;
+    this.headers = headers;
+    this.body = body;
+  }
+}
+
+class TimeoutError extends NetworkError {
+  timeout: number;
+
+  constructor(timeout: number) {
+    super(`The request timed out after ${timeout}ms.`);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+class AbortError extends NetworkError {
+  constructor(message: string = 'The request was aborted.') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+class NetworkFailureError extends NetworkError {
+  constructor(cause?: unknown) {
+    super(cause instanceof Error ? cause.message : 'The network request failed.', cause);
+    this.name = 'NetworkFailureError';
+  }
+}
+
+class GraphQLError<T = any> extends NetworkError {
+  errors: GraphQLFormattedError[];
+  data?: T;
+
+  constructor(errors: GraphQLFormattedError[], data?: T) {
+    super(errors.map(e => e.message).join('; '));
+    this.name = 'GraphQLError';
+    this.errors = errors;
+    this.data = data;
+  }
+}
+
+interface ValidationIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+class ValidationError<D = unknown> extends NetworkError {
+  issues: ValidationIssue[];
+  data: D;
+
+  constructor(issues: ValidationIssue[], data: D, cause?: unknown) {
+    const details = issues.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+    super(`Response validation failed: ${details.join('; ')}`, cause);
+    this.name = 'ValidationError';
+    this.issues = issues;
+    this.data = data;
+  }
+}
+
+/** Builds an `HttpError` from a failed response, reading its body when possible. */
+const createHttpError = async (response: Response): Promise<HttpError> => {
+  let body;
+  try {
+    body = await parseResponse(response, 'auto');
+  } catch {
+    body = undefined;
+  }
+  const headers = response.headers ? toHeaderRecord(response.headers) : {};
+  return new HttpError(response.status, response.statusText, headers, body);
+};
+
+/** Normalizes anything thrown during a request into a `NetworkError`. */
+const toNetworkError = (err: unknown): NetworkError => {
+  if (err instanceof NetworkError) return err;
+  if (err instanceof Error) {
+    if (err.name === 'AbortError') return new AbortError(err.message);
+    return new NetworkError(err.message, err);
+  }
+  return new NetworkError('An unknown error occurred', err);
+};
+
+export type { GraphQLFormattedError, ValidationIssue };
+
+export {
+  NetworkError,
+  HttpError,
+  TimeoutError,
+  AbortError,
+  NetworkFailureError,
+  GraphQLError,
+  ValidationError,
+  createHttpError,
+  toNetworkError,
+};
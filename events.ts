@@ -0,0 +1,132 @@
+/**
+ * A log of what `useFetch` and `useGraphQL` do on the network, for debugging and devtools.
+ *
+ * `networkEvents.subscribe(listener)` receives, for every request actually sent (requests
+ * shared by several hooks are reported once):
+ *
+ * - `start`: the request, with its cache key, URL, method and body.
+ * - `attempt` / `timeout` / `retry`: every attempt, those that timed out, and the delay
+ *   before the next one.
+ * - `abort`: every hook waiting for the request let go of it.
+ * - `settle`: the data or error it ended with, and how long it took.
+ *
+ * plus a `cache` event whenever a hook with `useCache` looks up its key (`hit` tells
+ * whether an entry was found, `stale` whether it is being revalidated).
+ *
+ * `networkEvents.refetch(key)` refetches the mounted hooks rendering `key`, cached or not.
+ *
+ * @example
+ * ```ts
+ * const unsubscribe = networkEvents.subscribe(event => {
+ *   if (event.type === 'timeout') {
+ *     console.warn(`Request ${event.id} timed out after ${event.timeout}ms (attempt ${event.attempt})`);
+ *   }
+ * });
+ * ```
+ */
+import { toNetworkError, NetworkError } from './errors';
+import type { RequestRunner } from './dedupe';
+
+interface NetworkRequestInfo {
+  key: string;
+  url: string;
+  method: string;
+  kind: 'fetch' | 'graphql';
+  /** The request body, or the operation name and variables of GraphQL requests. */
+  body?: unknown;
+}
+
+type NetworkEvent =
+  | { type: 'start'; id: number; time: number; request: NetworkRequestInfo }
+  | { type: 'attempt'; id: number; time: number; attempt: number }
+  | { type: 'timeout'; id: number; time: number; attempt: number; timeout: number }
+  | { type: 'retry'; id: number; time: number; attempt: number; error: NetworkError; delay: number }
+  | { type: 'abort'; id: number; time: number }
+  | { type: 'settle'; id: number; time: number; duration: number; data?: unknown; error?: NetworkError }
+  | { type: 'cache'; time: number; key: string; hit: boolean; stale: boolean };
+
+type NetworkEventListener = (event: NetworkEvent) => void;
+
+/** A network event, before `emitNetworkEvent` stamps its time. */
+type Untimed<E> = E extends NetworkEvent ? Omit<E, 'time'> : never;
+
+const listeners = new Set<NetworkEventListener>();
+const refetchers = new Map<string, Set<() => void>>();
+let lastId = 0;
+
+const emitNetworkEvent = (event: Untimed<NetworkEvent>) => {
+  if (listeners.size === 0) return;
+  const timed = { ...event, time: Date.now() } as NetworkEvent;
+  listeners.forEach(listener => listener(timed));
+};
+
+/**
+ * Wraps `run` so the request it sends is reported to `networkEvents`. Wrap the runner
+ * before it is deduplicated, so shared requests are reported once.
+ */
+const trackRequest = <T>(request: NetworkRequestInfo, run: RequestRunner<T>): RequestRunner<T> => (signal, emit) => {
+  const id = ++lastId;
+  const startedAt = Date.now();
+  emitNetworkEvent({ type: 'start', id, request });
+  const onAbort = () => emitNetworkEvent({ type: 'abort', id });
+  signal.addEventListener('abort', onAbort);
+
+  const promise = run(signal, event => {
+    if (event.type === 'attempt' || event.type === 'timeout' || event.type === 'retry') {
+      emitNetworkEvent({ ...event, id });
+    }
+    emit(event);
+  });
+  return promise.then(
+    data => {
+      signal.removeEventListener('abort', onAbort);
+      emitNetworkEvent({ type: 'settle', id, duration: Date.now() - startedAt, data });
+      return data;
+    },
+    err => {
+      signal.removeEventListener('abort', onAbort);
+      emitNetworkEvent({ type: 'settle', id, duration: Date.now() - startedAt, error: toNetworkError(err) });
+      throw err;
+    }
+  );
+};
+
+/** Lets `networkEvents.refetch(key)` reach a mounted hook, returns the cleanup. */
+const registerRefetch = (key: string, refetch: () => void) => {
+  let keyRefetchers = refetchers.get(key);
+  if (!keyRefetchers) {
+    keyRefetchers = new Set();
+    refetchers.set(key, keyRefetchers);
+  }
+  keyRefetchers.add(refetch);
+  return () => {
+    keyRefetchers!.delete(refetch);
+    if (keyRefetchers!.size === 0 && refetchers.get(key) === keyRefetchers) {
+      refetchers.delete(key);
+    }
+  };
+};
+
+const networkEvents = {
+  subscribe: (listener: NetworkEventListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+  /** Refetches every mounted hook rendering `key`. */
+  refetch: (key: string) => {
+    refetchers.get(key)?.forEach(refetch => refetch());
+  },
+  /** Whether a mounted hook renders `key`, i.e. whether `refetch(key)` does anything. */
+  isMounted: (key: string) => refetchers.has(key),
+};
+
+export type { NetworkEvent, NetworkEventListener, NetworkRequestInfo };
+
+export {
+  networkEvents,
+  emitNetworkEvent,
+  trackRequest,
+  registerRefetch,
+};
@@ -0,0 +1,75 @@
+import { createHash } from "crypto";
+import { renderHook } from "@testing-library/react-hooks";
+import { useGraphQL } from "./useGraphQL";
+import { createGraphQLFetch } from "./graphqlTransport";
+
+describe("GraphQL transport", () => {
+  const sha256 = (query: string) => createHash("sha256").update(query).digest("hex");
+  const query = "query Greet($name: String!) { greet(name: $name) }";
+
+  const jsonResponse = (body: unknown) => ({
+    ok: true,
+    status: 200,
+    json: async () => body,
+  } as Response);
+
+  const notFound = jsonResponse({ errors: [{ message: "PersistedQueryNotFound", extensions: { code: "PERSISTED_QUERY_NOT_FOUND" } }] });
+
+  it("should send queries as URL-encoded GET requests without a Content-Type", async () => {
+    const fetchImpl = jest.fn().mockResolvedValue(jsonResponse({ data: {} }));
+    const send = createGraphQLFetch(fetchImpl, { query, variables: { name: "Ada" }, operationName: "Greet" }, { method: "GET" });
+
+    await send("https://api.example.com/graphql", { headers: { "Content-Type": "application/json", Authorization: "token" } });
+
+    const [url, init] = fetchImpl.mock.calls[0];
+    const params = new URL(url).searchParams;
+    expect(params.get("query")).toBe(query);
+    expect(JSON.parse(params.get("variables")!)).toEqual({ name: "Ada" });
+    expect(params.get("operationName")).toBe("Greet");
+    expect(init).toEqual({ method: "GET", headers: { Authorization: "token" }, body: undefined });
+  });
+
+  it("should send the hash first and the full query when it is not persisted yet", async () => {
+    const fetchImpl = jest.fn()
+      .mockResolvedValueOnce(notFound)
+      .mockResolvedValueOnce(jsonResponse({ data: { greet: "Hi, Ada!" } }))
+      .mockResolvedValueOnce(jsonResponse({ data: { greet: "Hi, Ada!" } }));
+    const send = createGraphQLFetch(fetchImpl, { query, variables: { name: "Ada" } }, { persistedQueries: { sha256 } });
+    const extensions = { persistedQuery: { version: 1, sha256Hash: sha256(query) } };
+
+    await send("/graphql", {});
+    expect(JSON.parse(fetchImpl.mock.calls[0][1].body)).toEqual({ variables: { name: "Ada" }, extensions });
+    expect(JSON.parse(fetchImpl.mock.calls[1][1].body)).toEqual({ query, variables: { name: "Ada" }, extensions });
+
+    await send("/graphql", {});
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+    expect(JSON.parse(fetchImpl.mock.calls[2][1].body).query).toBeUndefined();
+  });
+
+  it("should stop hashing for endpoints without persisted query support", async () => {
+    const fetchImpl = jest.fn()
+      .mockResolvedValueOnce(jsonResponse({ errors: [{ message: "PersistedQueryNotSupported" }] }))
+      .mockResolvedValue(jsonResponse({ data: {} }));
+    const send = createGraphQLFetch(fetchImpl, { query }, { persistedQueries: { sha256 } });
+
+    await send("/unsupported", {});
+    await send("/unsupported", {});
+
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+    expect(JSON.parse(fetchImpl.mock.calls[2][1].body)).toEqual({ query });
+  });
+
+  it("should let useGraphQL pick an operation from a multi-operation document", async () => {
+    global.fetch = jest.fn().mockResolvedValue(jsonResponse({ data: { hello: "Hello world!" } }));
+    const document = "query Hello { hello } query Add { add(x: 1, y: 2) }";
+
+    const { result, waitFor } = renderHook(() =>
+      useGraphQL("/graphql", document, { operationName: "Hello", method: "GET", debounceTime: 0 })
+    );
+    await waitFor(() => expect(result.current.data).toEqual({ hello: "Hello world!" }));
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe(`/graphql?query=${encodeURIComponent(document)}&variables=%7B%7D&operationName=Hello`);
+    expect(init.method).toBe("GET");
+  });
+});
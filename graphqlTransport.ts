@@ -0,0 +1,143 @@
+/**
+ * How GraphQL operations are sent over HTTP, shared by `useGraphQL`,
+ * `useInfiniteGraphQL` and `useGraphQLMutation`.
+ *
+ * - `method: 'GET'` sends `query`, `variables`, `operationName` and `extensions`
+ *   URL-encoded in the query string, so responses can be cached by the browser, proxies
+ *   and CDNs. The `Content-Type` header is dropped to avoid a CORS preflight.
+ * - `persistedQueries` enables Automatic Persisted Queries: the SHA-256 hash of the
+ *   document is sent in `extensions.persistedQuery` instead of the document itself.
+ *   When the server answers `PersistedQueryNotFound`, the request is sent again with the
+ *   full document so the server can register it. Endpoints answering
+ *   `PersistedQueryNotSupported` get the full document from then on.
+ *
+ * @see https://www.apollographql.com/docs/apollo-server/performance/apq
+ */
+import { toHeaderRecord } from './NetworkProvider';
+import type { GraphQLFormattedError } from './errors';
+
+const PERSISTED_QUERY_VERSION = 1;
+
+interface GraphQLPayload {
+  query: string;
+  variables?: Record<string, any>;
+  operationName?: string;
+}
+
+interface PersistedQueryOptions {
+  /** Hashes the document; defaults to the Web Crypto API. */
+  sha256?: (query: string) => string | Promise<string>;
+}
+
+interface GraphQLTransportOptions {
+  method?: 'POST' | 'GET';
+  persistedQueries?: boolean | PersistedQueryOptions;
+}
+
+const hashes = new Map<string, string>();
+const unsupportedEndpoints = new Set<string>();
+
+const webCryptoSha256 = async (query: string): Promise<string> => {
+  const subtle = typeof crypto !== 'undefined' ? crypto.subtle : undefined;
+  if (!subtle || typeof TextEncoder === 'undefined') {
+    throw new Error('SHA-256 is not available, pass `persistedQueries: { sha256 }`.');
+  }
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(query));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => `0${byte.toString(16)}`.slice(-2))
+    .join('');
+};
+
+const hashQuery = async (query: string, options: PersistedQueryOptions): Promise<string> => {
+  const cached = hashes.get(query);
+  if (cached) return cached;
+  const hash = await (options.sha256 || webCryptoSha256)(query);
+  hashes.set(query, hash);
+  return hash;
+};
+
+const buildRequest = (url: string, body: Record<string, unknown>, method: 'POST' | 'GET', init: RequestInit) => {
+  if (method === 'POST') {
+    return { url, init: { ...init, method, body: JSON.stringify(body) } };
+  }
+
+  const params = Object.keys(body)
+    .filter(key => body[key] !== undefined)
+    .map(key => {
+      const value = typeof body[key] === 'string' ? body[key] as string : JSON.stringify(body[key]);
+      return `${encodeURIComponent(key)}=${encodeURIComponent(value)}`;
+    });
+  const headers = toHeaderRecord(init.headers || {});
+  Object.keys(headers).forEach(key => {
+    if (key.toLowerCase() === 'content-type') {
+      delete headers[key];
+    }
+  });
+  return {
+    url: `${url}${url.includes('?') ? '&' : '?'}${params.join('&')}`,
+    init: { ...init, method, headers, body: undefined },
+  };
+};
+
+const getPersistedQueryError = async (response: Response): Promise<'PERSISTED_QUERY_NOT_FOUND' | 'PERSISTED_QUERY_NOT_SUPPORTED' | undefined> => {
+  try {
+    // read a copy, the hook still has to read the response itself
+    const json = await (typeof response.clone === 'function' ? response.clone() : response).json();
+    const errors: GraphQLFormattedError[] = (json && json.errors) || [];
+    for (const error of errors) {
+      const code = error.extensions?.code;
+      if (error.message === 'PersistedQueryNotFound' || code === 'PERSISTED_QUERY_NOT_FOUND') {
+        return 'PERSISTED_QUERY_NOT_FOUND';
+      }
+      if (error.message === 'PersistedQueryNotSupported' || code === 'PERSISTED_QUERY_NOT_SUPPORTED') {
+        return 'PERSISTED_QUERY_NOT_SUPPORTED';
+      }
+    }
+  } catch {
+    // not a GraphQL response, let the hook report it
+  }
+  return undefined;
+};
+
+/**
+ * Returns a `fetch` that sends `payload` to the URL it is called with. Use it as the
+ * `fetch` of `fetchWithRetry`, so every attempt goes through the same transport.
+ */
+const createGraphQLFetch = (fetchImpl: typeof fetch, payload: GraphQLPayload, options: GraphQLTransportOptions = {}): typeof fetch =>
+  async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = String(input);
+    const { method = 'POST', persistedQueries } = options;
+    const send = (body: Record<string, unknown>) => {
+      const request = buildRequest(url, body, method, init);
+      return fetchImpl(request.url, request.init);
+    };
+
+    if (!persistedQueries || unsupportedEndpoints.has(url)) {
+      return send({ ...payload });
+    }
+
+    let sha256Hash: string;
+    try {
+      sha256Hash = await hashQuery(payload.query, persistedQueries === true ? {} : persistedQueries);
+    } catch {
+      return send({ ...payload });
+    }
+    const extensions = { persistedQuery: { version: PERSISTED_QUERY_VERSION, sha256Hash } };
+    const response = await send({ variables: payload.variables, operationName: payload.operationName, extensions });
+
+    const error = await getPersistedQueryError(response);
+    if (error === 'PERSISTED_QUERY_NOT_SUPPORTED') {
+      unsupportedEndpoints.add(url);
+      return send({ ...payload });
+    }
+    if (error === 'PERSISTED_QUERY_NOT_FOUND') {
+      return send({ ...payload, extensions });
+    }
+    return response;
+  };
+
+export type { GraphQLPayload, GraphQLTransportOptions, PersistedQueryOptions };
+
+export {
+  createGraphQLFetch,
+};
@@ -0,0 +1,248 @@
+/**
+ * A minimal client for the `graphql-ws` protocol (the `graphql-transport-ws` WebSocket subprotocol).
+ *
+ * One socket is shared per endpoint and connection params; every subscription on it is
+ * multiplexed by id. The socket connects lazily on the first subscription, sends
+ * `connection_init` with the connection params (e.g. an auth token), answers pings, and
+ * closes once the last subscription is gone. When the connection drops it reconnects
+ * using the same retry policy as the HTTP hooks and resubscribes everything that was active.
+ *
+ * @see https://github.com/enisdenjo/graphql-ws/blob/master/PROTOCOL.md
+ */
+import { getRetryDelay, shouldRetry, RetryOptions } from './retry';
+import { NetworkError, NetworkFailureError, GraphQLError, GraphQLFormattedError, toNetworkError } from './errors';
+
+const GRAPHQL_WS_PROTOCOL = 'graphql-transport-ws';
+// close codes sent by the server for errors a reconnect would not fix
+const FATAL_CLOSE_CODES = [4400, 4401, 4403, 4406, 4409, 4429];
+
+type ConnectionParams = Record<string, unknown> | (() => Record<string, unknown> | Promise<Record<string, unknown>>);
+
+type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting';
+
+interface SubscriptionPayload {
+  query: string;
+  variables?: Record<string, any>;
+  operationName?: string;
+}
+
+interface ExecutionResult<T> {
+  data?: T;
+  errors?: GraphQLFormattedError[];
+}
+
+interface SubscriptionSink<T> {
+  next: (result: ExecutionResult<T>) => void;
+  error: (error: NetworkError) => void;
+  complete: () => void;
+  status?: (status: ConnectionStatus) => void;
+}
+
+interface GraphQLWsOptions extends RetryOptions {
+  connectionParams?: ConnectionParams;
+  webSocketImpl?: typeof WebSocket;
+}
+
+interface GraphQLWsConnection {
+  subscribe: <T>(payload: SubscriptionPayload, sink: SubscriptionSink<T>) => () => void;
+}
+
+interface ActiveSubscription {
+  payload: SubscriptionPayload;
+  sink: SubscriptionSink<any>;
+}
+
+const connections = new Map<string, GraphQLWsConnection>();
+
+const createConnection = (url: string, options: GraphQLWsOptions, dispose: () => void): GraphQLWsConnection => {
+  const subscriptions = new Map<string, ActiveSubscription>();
+  let socket: WebSocket | null = null;
+  let acknowledged = false;
+  let attempt = 0;
+  let nextId = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const send = (message: Record<string, unknown>) => socket?.send(JSON.stringify(message));
+
+  const notify = (status: ConnectionStatus) => {
+    subscriptions.forEach(({ sink }) => sink.status?.(status));
+  };
+
+  const fail = (error: NetworkError) => {
+    const failed = Array.from(subscriptions.values());
+    subscriptions.clear();
+    dispose();
+    failed.forEach(({ sink }) => sink.error(error));
+  };
+
+  const scheduleClose = () => {
+    if (subscriptions.size || closeTimer) return;
+    // wait a tick, so a component remounting right away reuses the socket
+    closeTimer = setTimeout(() => {
+      closeTimer = null;
+      if (subscriptions.size) return;
+      dispose();
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+      const current = socket;
+      socket = null;
+      acknowledged = false;
+      current?.close(1000, 'Normal Closure');
+    }, 0);
+  };
+
+  const connect = () => {
+    const WebSocketImpl = options.webSocketImpl || WebSocket;
+    const current = new WebSocketImpl(url, GRAPHQL_WS_PROTOCOL);
+    socket = current;
+    acknowledged = false;
+    notify(attempt ? 'reconnecting' : 'connecting');
+
+    current.onopen = async () => {
+      try {
+        const { connectionParams } = options;
+        const payload = typeof connectionParams === 'function' ? await connectionParams() : connectionParams;
+        if (socket === current) {
+          send({ type: 'connection_init', payload });
+        }
+      } catch (err) {
+        socket = null;
+        current.close(4400, 'Failed to build the connection params');
+        fail(toNetworkError(err));
+      }
+    };
+
+    current.onmessage = (event: MessageEvent) => {
+      if (socket !== current) return;
+      let message: { id?: string; type: string; payload?: any };
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        current.close(4400, 'Invalid message received');
+        return;
+      }
+
+      const subscription = message.id !== undefined ? subscriptions.get(message.id) : undefined;
+      switch (message.type) {
+        case 'connection_ack':
+          acknowledged = true;
+          attempt = 0;
+          subscriptions.forEach(({ payload }, id) => send({ id, type: 'subscribe', payload }));
+          notify('connected');
+          break;
+        case 'ping':
+          send({ type: 'pong' });
+          break;
+        case 'next':
+          subscription?.sink.next(message.payload);
+          break;
+        case 'error':
+          if (subscription) {
+            subscriptions.delete(message.id!);
+            subscription.sink.error(new GraphQLError(message.payload));
+            scheduleClose();
+          }
+          break;
+        case 'complete':
+          if (subscription) {
+            subscriptions.delete(message.id!);
+            subscription.sink.complete();
+            scheduleClose();
+          }
+          break;
+      }
+    };
+
+    current.onclose = (event: CloseEvent) => {
+      if (socket !== current) return;
+      socket = null;
+      acknowledged = false;
+      if (!subscriptions.size) {
+        dispose();
+        return;
+      }
+      if (FATAL_CLOSE_CODES.includes(event.code)) {
+        fail(new NetworkError(event.reason || `The WebSocket was closed with code ${event.code}.`));
+        return;
+      }
+
+      const error = new NetworkFailureError(new Error(event.reason || `The WebSocket was closed with code ${event.code}.`));
+      attempt++;
+      if (!shouldRetry(options, attempt, error)) {
+        fail(error);
+        return;
+      }
+      notify('reconnecting');
+      retryTimer = setTimeout(() => {
+        retryTimer = null;
+        connect();
+      }, getRetryDelay(options, attempt, error));
+    };
+  };
+
+  return {
+    subscribe: <T>(payload: SubscriptionPayload, sink: SubscriptionSink<T>) => {
+      const id = String(++nextId);
+      subscriptions.set(id, { payload, sink });
+      if (closeTimer) {
+        clearTimeout(closeTimer);
+        closeTimer = null;
+      }
+
+      if (!socket && !retryTimer) {
+        connect();
+      } else if (acknowledged) {
+        send({ id, type: 'subscribe', payload });
+        sink.status?.('connected');
+      } else {
+        sink.status?.(attempt ? 'reconnecting' : 'connecting');
+      }
+
+      return () => {
+        if (!subscriptions.delete(id)) return;
+        if (acknowledged) {
+          send({ id, type: 'complete' });
+        }
+        scheduleClose();
+      };
+    },
+  };
+};
+
+/**
+ * Returns the shared connection for `url`. Connections with static connection params are
+ * shared only with subscribers passing the same params.
+ */
+const getGraphQLWsConnection = (url: string, options: GraphQLWsOptions): GraphQLWsConnection => {
+  const { connectionParams } = options;
+  const key = JSON.stringify([url, typeof connectionParams === 'function' ? null : connectionParams || null]);
+  let connection = connections.get(key);
+  if (!connection) {
+    const created = createConnection(url, options, () => {
+      if (connections.get(key) === created) {
+        connections.delete(key);
+      }
+    });
+    connection = created;
+    connections.set(key, connection);
+  }
+  return connection;
+};
+
+export type {
+  ConnectionParams,
+  ConnectionStatus,
+  ExecutionResult,
+  GraphQLWsConnection,
+  GraphQLWsOptions,
+  SubscriptionPayload,
+  SubscriptionSink,
+};
+
+export {
+  GRAPHQL_WS_PROTOCOL,
+  getGraphQLWsConnection,
+};
@@ -9,9 +9,87 @@ import {
     useFetchOptions,
     useFetchTrace,
     useFetchPatch,
+    useSuspenseFetch,
 } from './useFetch';
 
-import { useGraphQL } from './useGraphQL';
+import { useGraphQL, useSuspenseGraphQL } from './useGraphQL';
+
+import { useGraphQLSubscription } from './useGraphQLSubscription';
+
+import { useMutation, useGraphQLMutation } from './useMutation';
+
+import { useInfiniteFetch, useInfiniteGraphQL, parseLinkHeader } from './useInfiniteFetch';
+
+import { NetworkProvider, useNetworkConfig } from './NetworkProvider';
+
+import { addInterceptor, withInterceptors } from './interceptors';
+
+import { resetSuspense } from './suspense';
+
+import { prefetchFetch, prefetchGraphQL, dehydrate, hydrate } from './ssr';
+
+import { createOfflineQueue, memoryStorage, localStorageStorage, indexedDBStorage } from './offlineQueue';
+
+import { buildUrl, interpolatePath, serializeQuery } from './url';
+
+import { createOpenAPIHooks } from './openapi';
+
+import { createMockTransport, flushTimers } from './testing';
+
+import { networkEvents } from './events';
+
+import { NetworkDevtools } from './NetworkDevtools';
+
+import { useStream } from './useStream';
+
+import { useEventSource } from './useEventSource';
+import { createClient } from './client';
+
+import {
+    NetworkError,
+    HttpError,
+    TimeoutError,
+    AbortError,
+    NetworkFailureError,
+    GraphQLError,
+    ValidationError,
+} from './errors';
+
+import { jsonSchema } from './validate';
+
+import { createNormalizedCache, addTypename } from './normalizedCache';
+
+import { queryCache, createQueryCache, createFetchCacheKey, createGraphQLCacheKey, createPageCacheKey } from './cache';
+
+export type { FetchState, FutureFetchState, SuspenseFetchState, UseFetchConfig } from './useFetch';
+export type { GraphQLConfig, GraphQLResponse, SuspenseGraphQLConfig, SuspenseGraphQLResponse } from './useGraphQL';
+export type { GraphQLSubscriptionConfig, GraphQLSubscriptionState, SubscriptionStatus } from './useGraphQLSubscription';
+export type { ConnectionParams } from './graphqlWs';
+export type { GraphQLPayload, GraphQLTransportOptions, PersistedQueryOptions } from './graphqlTransport';
+export type { MutationConfig, GraphQLMutationConfig, MutationState, MutationStatus, OptimisticCache } from './useMutation';
+export type { InfiniteFetchConfig, InfiniteGraphQLConfig, InfiniteFetchState, PageInfo, PageParamGetter } from './useInfiniteFetch';
+export type { NetworkConfig, NetworkProviderProps } from './NetworkProvider';
+export type { Interceptor, InterceptedRequest, InterceptorContext } from './interceptors';
+export type { RefetchOptions, RefetchTrigger } from './refetch';
+export type { Progress, ProgressCallback, ProgressDirection, ProgressOptions } from './progress';
+export type { QueueStatus, QueuedRequest, QueuedRequestInit, OfflineQueue, OfflineQueueOptions, OfflineQueueStorage, ConflictResolution } from './offlineQueue';
+export type { PathParams, PathParamValue, QueryParams, QueryValue } from './url';
+export type { HttpMethod, PathOperation, PathsWithMethod, OperationParameters, OperationBody, OperationData, OpenAPIFetchConfig, OpenAPIHooks } from './openapi';
+export type { MockTransport, MockRoute, MockRequest, MockReply, MockResponseInit, MockUrlPattern, MockGraphQLPayload, FlushTimersOptions } from './testing';
+export type { NetworkEvent, NetworkEventListener, NetworkRequestInfo } from './events';
+export type { NetworkDevtoolsProps, NetworkLog, RequestLogEntry, RequestLogStatus } from './NetworkDevtools';
+export type { StreamConfig, StreamState, StreamStatus, StreamFormat } from './useStream';
+export type { EventSourceConfig, EventSourceState, EventSourceStatus } from './useEventSource';
+export type { ServerSentEvent } from './stream';
+export type { RequestStatus } from './request';
+export type { ClientConfig, RequestConfig, ClientGraphQLConfig, PrepareOptions, PreparedRequest, NetworkClient } from './client';
+export type { PrefetchNetwork, DehydratedEntry, DehydratedState, DehydrateOptions, HydrateOptions } from './ssr';
+export type { FetchResponseType, ResponseParser } from './parse';
+export type { GraphQLFormattedError, ValidationIssue } from './errors';
+export type { Schema, SafeParseSchema, SafeParseResult, ValidateFunction, JSONSchema, JSONSchemaType } from './validate';
+export type { RetryPredicate } from './retry';
+export type { NormalizedCache, NormalizedCacheOptions, EntityKeyFields } from './normalizedCache';
+export type { CacheEntry, CacheEvent, CacheListener, CacheKeyPredicate, CacheUpdater, QueryCache } from './cache';
 
 export {
     // fetch
@@ -26,5 +104,68 @@ export {
     useFetchTrace,
     useFetchPatch,
     // graphql
-    useGraphQL
+    useGraphQL,
+    useGraphQLSubscription,
+    // client
+    createClient,
+    // streaming
+    useStream,
+    useEventSource,
+    // suspense
+    useSuspenseFetch,
+    useSuspenseGraphQL,
+    resetSuspense,
+    // server-side rendering
+    prefetchFetch,
+    prefetchGraphQL,
+    dehydrate,
+    hydrate,
+    // offline queue
+    createOfflineQueue,
+    memoryStorage,
+    localStorageStorage,
+    indexedDBStorage,
+    // urls
+    buildUrl,
+    interpolatePath,
+    serializeQuery,
+    // openapi
+    createOpenAPIHooks,
+    // testing
+    createMockTransport,
+    flushTimers,
+    // devtools
+    networkEvents,
+    NetworkDevtools,
+    // mutations
+    useMutation,
+    useGraphQLMutation,
+    // pagination
+    useInfiniteFetch,
+    useInfiniteGraphQL,
+    parseLinkHeader,
+    // provider
+    NetworkProvider,
+    useNetworkConfig,
+    // interceptors
+    addInterceptor,
+    withInterceptors,
+    // cache
+    queryCache,
+    createQueryCache,
+    createFetchCacheKey,
+    createGraphQLCacheKey,
+    createPageCacheKey,
+    createNormalizedCache,
+    addTypename,
+    // errors
+    NetworkError,
+    HttpError,
+    TimeoutError,
+    AbortError,
+    NetworkFailureError,
+    GraphQLError,
+    ValidationError,
+    // validation
+    jsonSchema,
 };
\ No newline at end of file
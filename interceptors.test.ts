@@ -0,0 +1,98 @@
+import { createElement } from "react";
+import { renderHook } from "@testing-library/react-hooks";
+import { useFetch } from "./useFetch";
+import { useGraphQL } from "./useGraphQL";
+import { NetworkProvider, mergeHeaders } from "./NetworkProvider";
+import { addInterceptor, withInterceptors, Interceptor } from "./interceptors";
+
+describe("interceptors", () => {
+  const response = (status: number, body: unknown = {}) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: "",
+    headers: new Map(),
+    json: async () => body,
+  } as unknown as Response);
+
+  it("should run request and response interceptors in order", async () => {
+    const calls: string[] = [];
+    const fetchImpl = jest.fn().mockResolvedValue(response(200));
+    const tag = (name: string): Interceptor => ({
+      onRequest: async request => {
+        calls.push(`request:${name}`);
+        return { ...request, url: `${request.url}/${name}` };
+      },
+      onResponse: response => {
+        calls.push(`response:${name}`);
+        return response;
+      },
+    });
+
+    await withInterceptors(fetchImpl, [tag("a"), tag("b")])("/users", { method: "GET" });
+
+    expect(calls).toEqual(["request:a", "request:b", "response:a", "response:b"]);
+    expect(fetchImpl).toHaveBeenCalledWith("/users/a/b", { method: "GET" });
+  });
+
+  it("should retry the original request after refreshing a token", async () => {
+    let token = "expired";
+    const fetchImpl = jest.fn((url: string, init: RequestInit) =>
+      Promise.resolve(response((init.headers as Record<string, string>).Authorization === "Bearer fresh" ? 200 : 401))
+    );
+    const auth: Interceptor = {
+      onRequest: request => ({
+        ...request,
+        init: { ...request.init, headers: mergeHeaders(request.init.headers, { Authorization: `Bearer ${token}` }) },
+      }),
+      onResponse: async (response, request, { retry }) => {
+        if (response.status === 401 && request.retryCount === 0) {
+          token = "fresh";
+          return retry();
+        }
+      },
+    };
+
+    const result = await withInterceptors(fetchImpl as typeof fetch, [auth])("/me");
+
+    expect(result.status).toBe(200);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it("should let error interceptors recover from fetch failures", async () => {
+    const fetchImpl = jest.fn().mockRejectedValue(new TypeError("Failed to fetch"));
+    const fallback = response(200, { offline: true });
+
+    await expect(withInterceptors(fetchImpl, [{ onError: () => fallback }])("/users")).resolves.toBe(fallback);
+    await expect(withInterceptors(fetchImpl, [{ onError: () => undefined }])("/users")).rejects.toThrow("Failed to fetch");
+  });
+
+  it("should apply global, provider and hook interceptors to useFetch and useGraphQL", async () => {
+    const customFetch = jest.fn().mockResolvedValue(response(200, { data: { hello: "world" } }));
+    const header = (name: string): Interceptor => ({
+      onRequest: request => ({ ...request, init: { ...request.init, headers: mergeHeaders(request.init.headers, { [name]: "1" }) } }),
+    });
+    const remove = addInterceptor(header("X-Global"));
+    const wrapper = ({ children }: { children: any }) =>
+      createElement(NetworkProvider, { fetch: customFetch, interceptors: [header("X-Provider")] }, children);
+
+    try {
+      const fetchHook = renderHook(
+        () => useFetch("/users", { debounceTime: 0, interceptors: [header("X-Hook")] }),
+        { wrapper }
+      );
+      await fetchHook.waitForNextUpdate();
+      const graphQLHook = renderHook(
+        () => useGraphQL("/graphql", "{ hello }", { debounceTime: 0, interceptors: [header("X-Hook")] }),
+        { wrapper }
+      );
+      await graphQLHook.waitForNextUpdate();
+    } finally {
+      remove();
+    }
+
+    expect(customFetch).toHaveBeenCalledTimes(2);
+    customFetch.mock.calls.forEach(([, init]) => {
+      expect(init.headers).toMatchObject({ "X-Global": "1", "X-Provider": "1", "X-Hook": "1" });
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Request/response interceptors applied around every `fetch` made by the hooks.
+ *
+ * Interceptors run in order: the global ones registered with `addInterceptor`,
+ * then those of each enclosing `NetworkProvider` (outermost first), then the
+ * hook's own `interceptors` option. Every phase may be async:
+ *
+ * - `onRequest(request)` may return a new `{ url, init }` (e.g. to inject a token).
+ * - `onResponse(response, request, context)` may return a replacement response.
+ *   Non-2xx responses come through here too, before they become an `HttpError`.
+ * - `onError(error, request, context)` handles errors thrown by `fetch` itself
+ *   (network failures, aborts) and may recover by returning a response.
+ *
+ * `context.retry(request?)` sends the request again through the whole chain, e.g.
+ * after refreshing an expired token; `request.retryCount` tells how many times
+ * that already happened, so interceptors can avoid retrying forever.
+ *
+ * @example
+ * ```ts
+ * addInterceptor({
+ *   onRequest: request => ({
+ *     ...request,
+ *     init: { ...request.init, headers: mergeHeaders(request.init.headers, { Authorization: `Bearer ${getToken()}` }) },
+ *   }),
+ *   onResponse: async (response, request, { retry }) => {
+ *     if (response.status === 401 && request.retryCount === 0) {
+ *       await refreshToken();
+ *       return retry();
+ *     }
+ *   },
+ * });
+ * ```
+ */
+import { useMemo, useRef } from 'react';
+import type { NetworkConfig } from './NetworkProvider';
+
+interface InterceptedRequest {
+  url: string;
+  init: RequestInit;
+  retryCount: number;
+}
+
+interface InterceptorContext {
+  retry: (request?: Pick<InterceptedRequest, 'url' | 'init'>) => Promise<Response>;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+interface Interceptor {
+  onRequest?: (request: InterceptedRequest) => MaybePromise<Pick<InterceptedRequest, 'url' | 'init'> | void>;
+  onResponse?: (response: Response, request: InterceptedRequest, context: InterceptorContext) => MaybePromise<Response | void>;
+  onError?: (error: unknown, request: InterceptedRequest, context: InterceptorContext) => MaybePromise<Response | void>;
+}
+
+const globalInterceptors: Interceptor[] = [];
+
+/** Registers an interceptor for every hook; returns a function that removes it. */
+const addInterceptor = (interceptor: Interceptor) => {
+  globalInterceptors.push(interceptor);
+  return () => {
+    const index = globalInterceptors.indexOf(interceptor);
+    if (index !== -1) {
+      globalInterceptors.splice(index, 1);
+    }
+  };
+};
+
+/** Wraps a `fetch` implementation so every call goes through `interceptors`. */
+const withInterceptors = (fetchImpl: typeof fetch, interceptors: Interceptor[]): typeof fetch => {
+  if (!interceptors.length) {
+    return fetchImpl;
+  }
+
+  const run = async (original: Pick<InterceptedRequest, 'url' | 'init'>, retryCount: number): Promise<Response> => {
+    let request: InterceptedRequest = { ...original, retryCount };
+    for (const interceptor of interceptors) {
+      if (interceptor.onRequest) {
+        const next = await interceptor.onRequest(request);
+        if (next) {
+          request = { ...next, retryCount };
+        }
+      }
+    }
+
+    const context: InterceptorContext = {
+      retry: (next = original) => run(next, retryCount + 1),
+    };
+
+    let response: Response;
+    try {
+      response = await fetchImpl(request.url, request.init);
+    } catch (error) {
+      for (const interceptor of interceptors) {
+        if (interceptor.onError) {
+          const recovered = await interceptor.onError(error, request, context);
+          if (recovered) {
+            return recovered;
+          }
+        }
+      }
+      throw error;
+    }
+
+    for (const interceptor of interceptors) {
+      if (interceptor.onResponse) {
+        response = (await interceptor.onResponse(response, request, context)) || response;
+      }
+    }
+    return response;
+  };
+
+  return (input: RequestInfo | URL, init?: RequestInit) => run({ url: String(input), init: init || {} }, 0);
+};
+
+/**
+ * The `fetch` used by a hook: the provider's (or global) `fetch` wrapped with the
+ * global, provider and hook interceptors. The returned function keeps its identity
+ * across renders, while always using the latest interceptors.
+ */
+const useInterceptedFetch = (network: NetworkConfig, interceptors?: Interceptor[]): typeof fetch => {
+  const interceptorsRef = useRef(interceptors);
+  interceptorsRef.current = interceptors;
+  const fetchImpl = network.fetch || fetch;
+  const providerInterceptors = network.interceptors;
+
+  return useMemo(
+    () => (input: RequestInfo | URL, init?: RequestInit) =>
+      withInterceptors(fetchImpl, [
+        ...globalInterceptors,
+        ...(providerInterceptors || []),
+        ...(interceptorsRef.current || []),
+      ])(input, init),
+    [fetchImpl, providerInterceptors]
+  );
+};
+
+/** The `fetch` a hook below `network` would use, for requests made outside of components. */
+const getInterceptedFetch = (network: NetworkConfig, interceptors?: Interceptor[]): typeof fetch =>
+  withInterceptors(network.fetch || fetch, [
+    ...globalInterceptors,
+    ...(network.interceptors || []),
+    ...(interceptors || []),
+  ]);
+
+export type { Interceptor, InterceptedRequest, InterceptorContext };
+
+export {
+  addInterceptor,
+  withInterceptors,
+  useInterceptedFetch,
+  getInterceptedFetch,
+};
@@ -0,0 +1,75 @@
+import { createElement } from "react";
+import { renderHook, act } from "@testing-library/react-hooks";
+import { useGraphQL } from "./useGraphQL";
+import { useGraphQLMutation } from "./useMutation";
+import { NetworkProvider } from "./NetworkProvider";
+import { createNormalizedCache, addTypename } from "./normalizedCache";
+
+describe("normalized cache", () => {
+  const okResponse = (body: unknown) => ({
+    ok: true,
+    json: async () => body,
+  } as Response);
+
+  beforeEach(() => {
+    global.fetch = jest.fn();
+  });
+
+  it("should add __typename to every selection set but the operation root", () => {
+    expect(addTypename('query User($id: ID!, $f: In = { a: 1 }) { user(id: $id, where: { b: "{" }) { id friends { name } } }')).toBe(
+      'query User($id: ID!, $f: In = { a: 1 }) { user(id: $id, where: { b: "{" }) { __typename id friends { __typename name } } }'
+    );
+    expect(addTypename("fragment Name on User { name } { viewer { __typename ...Name } }")).toBe(
+      "fragment Name on User { __typename name } { viewer { __typename ...Name } }"
+    );
+  });
+
+  it("should store entities once and rebuild results from them", () => {
+    const cache = createNormalizedCache({ keyFields: { Product: ["sku"] } });
+    cache.write("users", { users: [{ __typename: "User", id: 1, name: "Ada" }, { __typename: "User", id: 2, name: "Alan" }] });
+    cache.write("user", { user: { __typename: "User", id: 1, name: "Ada Lovelace", email: "ada@example.com" } });
+    cache.write("product", { product: { __typename: "Product", sku: "A-1", price: 10 } });
+
+    expect(cache.read("users")).toEqual({
+      users: [{ __typename: "User", id: 1, name: "Ada Lovelace" }, { __typename: "User", id: 2, name: "Alan" }],
+    });
+    expect(cache.readEntity("User:1")).toEqual({ __typename: "User", id: 1, name: "Ada Lovelace", email: "ada@example.com" });
+    expect(cache.readEntity('Product:{"sku":"A-1"}')).toEqual({ __typename: "Product", sku: "A-1", price: 10 });
+
+    const listener = jest.fn();
+    cache.watch("users", listener);
+    cache.updateEntity("User:2", { name: "Alan Turing" });
+    cache.updateEntity('Product:{"sku":"A-1"}', { price: 12 });
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    cache.evict("User:2");
+    expect(cache.read("users")).toBeUndefined();
+  });
+
+  it("should re-render every useGraphQL hook whose result contains a changed entity", async () => {
+    const normalizedCache = createNormalizedCache();
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(okResponse({ data: { users: [{ __typename: "User", id: 1, name: "Ada" }] } }))
+      .mockResolvedValueOnce(okResponse({ data: { user: { __typename: "User", id: 1, name: "Ada", email: "ada@example.com" } } }))
+      .mockResolvedValueOnce(okResponse({ data: { renameUser: { __typename: "User", id: 1, name: "Ada Lovelace" } } }));
+    const wrapper = ({ children }: { children: any }) =>
+      createElement(NetworkProvider, { graphQLConfig: { normalizedCache, debounceTime: 0 } }, children);
+
+    const { result, waitFor } = renderHook(() => ({
+      list: useGraphQL<any>("/graphql", "{ users { id name } }"),
+      detail: useGraphQL<any>("/graphql", "query User($id: ID!) { user(id: $id) { id name email } }", { variables: { id: 1 } }),
+      rename: useGraphQLMutation<any, { id: number; name: string }>("/graphql", "mutation Rename($id: ID!, $name: String!) { renameUser(id: $id, name: $name) { id name } }"),
+    }), { wrapper });
+    await waitFor(() => expect(result.current.list.data && result.current.detail.data).toBeTruthy());
+
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(JSON.parse(init.body).query).toBe("{ users { __typename id name } }");
+
+    await act(async () => {
+      await result.current.rename.mutateAsync({ id: 1, name: "Ada Lovelace" });
+    });
+
+    expect(result.current.list.data.users[0].name).toBe("Ada Lovelace");
+    expect(result.current.detail.data.user).toEqual({ __typename: "User", id: 1, name: "Ada Lovelace", email: "ada@example.com" });
+  });
+});
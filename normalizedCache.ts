@@ -0,0 +1,343 @@
+/**
+ * An optional normalized cache for GraphQL results.
+ *
+ * Every object in a response that can be identified (by default through its
+ * `__typename` and `id`) is stored once as an entity, and query results only keep
+ * references to those entities. Reading a result rebuilds it from the entity store,
+ * so an entity updated by one query, a mutation or `updateEntity` shows up in every
+ * result that contains it, and every `useGraphQL` hook watching such a result re-renders.
+ *
+ * Hooks using a normalized cache automatically add `__typename` to every selection set
+ * of their documents. Fields are stored under their response keys: alias fields that
+ * take arguments (e.g. `first: friends(first: 2)`) to keep their values apart.
+ *
+ * @example
+ * ```tsx
+ * const graphQLCache = createNormalizedCache({
+ *   keyFields: { Product: ['sku'], Viewer: () => 'Viewer' },
+ * });
+ *
+ * <NetworkProvider graphQLConfig={{ normalizedCache: graphQLCache, useCache: true }}>
+ *   <App />
+ * </NetworkProvider>
+ *
+ * // anywhere, e.g. after a WebSocket push
+ * graphQLCache.updateEntity('User:1', { name: 'Ada' });
+ * ```
+ */
+
+type EntityKeyFields = string[] | false | ((object: Record<string, any>) => string | undefined);
+
+interface NormalizedCacheOptions {
+  /** Per-`__typename` key fields, or a function returning the entity key (without the type name). */
+  keyFields?: Record<string, EntityKeyFields>;
+  /** Overrides how every object is identified; return `undefined` to keep it inline. */
+  dataIdFromObject?: (object: Record<string, any>) => string | undefined;
+}
+
+interface NormalizedCache {
+  identify: (object: Record<string, any>) => string | undefined;
+  write: (key: string | undefined, data: unknown) => void;
+  read: <T>(key: string) => T | undefined;
+  has: (key: string) => boolean;
+  readEntity: <T = Record<string, unknown>>(id: string) => T | undefined;
+  updateEntity: (id: string, fields: Record<string, unknown> | ((entity: Record<string, unknown>) => Record<string, unknown>)) => void;
+  evict: (id: string) => void;
+  watch: (key: string, listener: () => void) => () => void;
+  clear: () => void;
+}
+
+interface Reference {
+  __ref: string;
+}
+
+// the fields a result selected, derived from the response itself
+type SelectionTree = true | { [field: string]: SelectionTree };
+
+interface StoredResult {
+  value: unknown;
+  tree: SelectionTree;
+}
+
+const isReference = (value: unknown): value is Reference =>
+  !!value && typeof value === 'object' && typeof (value as Reference).__ref === 'string';
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const mergeTrees = (a: SelectionTree | undefined, b: SelectionTree): SelectionTree => {
+  if (a === undefined || a === true) return b;
+  if (b === true) return a;
+  const merged: { [field: string]: SelectionTree } = { ...a };
+  Object.keys(b).forEach(field => {
+    merged[field] = mergeTrees(merged[field], b[field]);
+  });
+  return merged;
+};
+
+const buildTree = (value: unknown): SelectionTree => {
+  if (Array.isArray(value)) {
+    return value.reduce<SelectionTree>((tree, item) => mergeTrees(tree, buildTree(item)), true);
+  }
+  if (isObject(value)) {
+    const tree: { [field: string]: SelectionTree } = {};
+    Object.keys(value).forEach(field => {
+      tree[field] = buildTree(value[field]);
+    });
+    return tree;
+  }
+  return true;
+};
+
+const createNormalizedCache = (options: NormalizedCacheOptions = {}): NormalizedCache => {
+  const entities = new Map<string, Record<string, unknown>>();
+  const results = new Map<string, StoredResult>();
+  const dependencies = new Map<string, Set<string>>();
+  const watchers = new Map<string, Set<() => void>>();
+
+  const identify = (object: Record<string, any>): string | undefined => {
+    if (options.dataIdFromObject) {
+      return options.dataIdFromObject(object);
+    }
+    const typename = object.__typename;
+    if (typeof typename !== 'string') return undefined;
+
+    const keyFields = options.keyFields?.[typename];
+    if (keyFields === false) return undefined;
+    if (typeof keyFields === 'function') {
+      const key = keyFields(object);
+      return key === undefined ? undefined : `${typename}:${key}`;
+    }
+    if (keyFields) {
+      if (keyFields.some(field => object[field] === undefined)) return undefined;
+      const key: Record<string, unknown> = {};
+      keyFields.forEach(field => {
+        key[field] = object[field];
+      });
+      return `${typename}:${JSON.stringify(key)}`;
+    }
+
+    const id = object.id !== undefined ? object.id : object._id;
+    return id === undefined || id === null ? undefined : `${typename}:${id}`;
+  };
+
+  const normalize = (value: unknown, changed: Set<string>): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(item => normalize(item, changed));
+    }
+    if (!isObject(value)) {
+      return value;
+    }
+
+    const fields: Record<string, unknown> = {};
+    Object.keys(value).forEach(field => {
+      fields[field] = normalize(value[field], changed);
+    });
+    const id = identify(value);
+    if (!id) {
+      return fields;
+    }
+    const existing = entities.get(id);
+    const merged = { ...existing, ...fields };
+    if (!existing || JSON.stringify(merged) !== JSON.stringify(existing)) {
+      entities.set(id, merged);
+      changed.add(id);
+    }
+    return { __ref: id };
+  };
+
+  // returns `undefined` when a referenced entity or a selected field is missing
+  const denormalize = (value: unknown, tree: SelectionTree, deps: Set<string>): { value: unknown } | undefined => {
+    if (Array.isArray(value)) {
+      const items: unknown[] = [];
+      for (const item of value) {
+        const denormalized = denormalize(item, tree, deps);
+        if (!denormalized) return undefined;
+        items.push(denormalized.value);
+      }
+      return { value: items };
+    }
+    if (isReference(value)) {
+      deps.add(value.__ref);
+      const entity = entities.get(value.__ref);
+      return entity ? denormalize(entity, tree, deps) : undefined;
+    }
+    if (isObject(value) && tree !== true) {
+      const object: Record<string, unknown> = {};
+      for (const field of Object.keys(tree)) {
+        if (!(field in value)) return undefined;
+        const denormalized = denormalize(value[field], tree[field], deps);
+        if (!denormalized) return undefined;
+        object[field] = denormalized.value;
+      }
+      return { value: object };
+    }
+    return { value };
+  };
+
+  const read = <T>(key: string): T | undefined => {
+    const result = results.get(key);
+    if (!result) return undefined;
+    const deps = new Set<string>();
+    const denormalized = denormalize(result.value, result.tree, deps);
+    dependencies.set(key, deps);
+    return denormalized?.value as T | undefined;
+  };
+
+  const notify = (changed: Set<string>, writtenKey?: string) => {
+    watchers.forEach((listeners, key) => {
+      const deps = dependencies.get(key);
+      let affected = key === writtenKey;
+      changed.forEach(id => {
+        affected = affected || !!deps?.has(id);
+      });
+      if (affected) {
+        listeners.forEach(listener => listener());
+      }
+    });
+  };
+
+  const write = (key: string | undefined, data: unknown) => {
+    const changed = new Set<string>();
+    const value = normalize(data, changed);
+    if (key !== undefined) {
+      results.set(key, { value, tree: buildTree(data) });
+      read(key);
+    }
+    notify(changed, key);
+  };
+
+  const readEntity = <T>(id: string): T | undefined => entities.get(id) as T | undefined;
+
+  const updateEntity: NormalizedCache['updateEntity'] = (id, fields) => {
+    const existing = entities.get(id) || {};
+    const update = typeof fields === 'function' ? fields(existing) : fields;
+    const changed = new Set<string>();
+    const normalized = normalize(update, changed) as Record<string, unknown>;
+    entities.set(id, { ...existing, ...normalized });
+    changed.add(id);
+    notify(changed);
+  };
+
+  const evict = (id: string) => {
+    if (entities.delete(id)) {
+      notify(new Set([id]));
+    }
+  };
+
+  const watch = (key: string, listener: () => void) => {
+    let listeners = watchers.get(key);
+    if (!listeners) {
+      listeners = new Set();
+      watchers.set(key, listeners);
+    }
+    listeners.add(listener);
+    if (!dependencies.has(key)) {
+      read(key);
+    }
+    return () => {
+      listeners!.delete(listener);
+      if (!listeners!.size) {
+        watchers.delete(key);
+      }
+    };
+  };
+
+  const clear = () => {
+    entities.clear();
+    results.clear();
+    dependencies.clear();
+  };
+
+  return {
+    identify,
+    write,
+    read,
+    has: key => read(key) !== undefined,
+    readEntity,
+    updateEntity,
+    evict,
+    watch,
+    clear,
+  };
+};
+
+/**
+ * Adds `__typename` to every selection set of a GraphQL document, except the
+ * operations' root selection sets, so that returned objects can be identified.
+ */
+const addTypename = (document: string): string => {
+  let output = '';
+  let braceDepth = 0;
+  let parenDepth = 0;
+  let definition = '';
+  let i = 0;
+
+  while (i < document.length) {
+    const char = document[i];
+
+    // copy strings, block strings and comments untouched
+    if (char === '#') {
+      const end = document.indexOf('\n', i);
+      const next = end === -1 ? document.length : end;
+      output += document.slice(i, next);
+      i = next;
+      continue;
+    }
+    if (char === '"') {
+      const block = document.startsWith('"""', i);
+      let j = i + (block ? 3 : 1);
+      while (j < document.length) {
+        if (document[j] === '\\') {
+          j += 2;
+        } else if (block ? document.startsWith('"""', j) : document[j] === '"') {
+          j += block ? 3 : 1;
+          break;
+        } else {
+          j++;
+        }
+      }
+      output += document.slice(i, j);
+      i = j;
+      continue;
+    }
+
+    if (braceDepth === 0 && parenDepth === 0 && /[A-Za-z_]/.test(char)) {
+      const word = /^[A-Za-z_]\w*/.exec(document.slice(i))![0];
+      if (!definition) {
+        definition = word;
+      }
+      output += word;
+      i += word.length;
+      continue;
+    }
+
+    output += char;
+    i++;
+    if (char === '(') parenDepth++;
+    if (char === ')') parenDepth--;
+    if (char === '}' && parenDepth === 0) {
+      braceDepth--;
+      if (braceDepth === 0) {
+        definition = '';
+      }
+    }
+    if (char === '{' && parenDepth === 0) {
+      const isOperationRoot = braceDepth === 0 && definition !== 'fragment';
+      braceDepth++;
+      const alreadySelected = /^\s*__typename\b/.test(document.slice(i));
+      if (!isOperationRoot && !alreadySelected) {
+        output += ' __typename';
+      }
+    }
+  }
+
+  return output;
+};
+
+export type { NormalizedCache, NormalizedCacheOptions, EntityKeyFields };
+
+export {
+  createNormalizedCache,
+  addTypename,
+};
@@ -0,0 +1,143 @@
+import { renderHook, act } from "@testing-library/react-hooks";
+import { useMutation } from "./useMutation";
+import { useFetchPost } from "./useFetch";
+import { createOfflineQueue, localStorageStorage } from "./offlineQueue";
+
+describe("offline queue", () => {
+  const okResponse = (body: unknown, status = 200) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  } as Response);
+
+  let online = true;
+
+  beforeEach(() => {
+    online = true;
+    jest.spyOn(navigator, "onLine", "get").mockImplementation(() => online);
+    global.fetch = jest.fn();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const goOnline = async () => {
+    online = true;
+    await act(async () => {
+      window.dispatchEvent(new Event("online"));
+      await new Promise<void>(resolve => setTimeout(resolve, 10));
+    });
+  };
+
+  it("should queue mutations made while offline and replay them on reconnect", async () => {
+    const offlineQueue = createOfflineQueue();
+    (global.fetch as jest.Mock).mockResolvedValue(okResponse({ id: 1, title: "Buy milk" }, 201));
+    online = false;
+
+    const { result } = renderHook(() => useMutation<{ id: number }, { title: string }>("/api/todos", { offlineQueue }));
+    act(() => {
+      result.current.mutate({ title: "Buy milk" });
+    });
+    await act(() => new Promise<void>(resolve => setTimeout(resolve, 10)));
+
+    expect(result.current.queueStatus).toBe("queued");
+    expect(result.current.loading).toBe(true);
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(offlineQueue.requests()).toMatchObject([
+      { url: "/api/todos", method: "POST", headers: { "Content-Type": "application/json" }, body: '{"title":"Buy milk"}' },
+    ]);
+
+    await goOnline();
+
+    expect(global.fetch).toHaveBeenCalledWith("/api/todos", { method: "POST", headers: { "Content-Type": "application/json" }, body: '{"title":"Buy milk"}' });
+    expect(result.current).toMatchObject({ status: "success", queueStatus: undefined, data: { id: 1, title: "Buy milk" } });
+    expect(offlineQueue.requests()).toEqual([]);
+    offlineQueue.dispose();
+  });
+
+  it("should queue requests that can't reach the server and persist them in order", async () => {
+    const offlineQueue = createOfflineQueue({ storage: localStorageStorage(), autoReplay: false });
+    (global.fetch as jest.Mock).mockRejectedValue(new TypeError("Failed to fetch"));
+
+    const first = renderHook(() => useFetchPost("/api/a", { body: "a", debounceTime: 0, offlineQueue }));
+    await first.waitFor(() => expect(first.result.current.queueStatus).toBe("queued"));
+    const second = renderHook(() => useFetchPost("/api/b", { body: "b", debounceTime: 0, offlineQueue }));
+    await second.waitFor(() => expect(second.result.current.queueStatus).toBe("queued"));
+
+    expect(first.result.current.error).toBeUndefined();
+    const stored = JSON.parse(localStorage.getItem("network-react:offline-queue")!);
+    expect(stored.map((request: { url: string; body: string }) => [request.url, request.body])).toEqual([["/api/a", "a"], ["/api/b", "b"]]);
+  });
+
+  it("should resend updated requests after a conflict", async () => {
+    const onConflict = jest.fn(async (_request, response: Response) => {
+      const latest = await response.json();
+      return { body: JSON.stringify({ ...latest, done: true }) };
+    });
+    const offlineQueue = createOfflineQueue({ onConflict, autoReplay: false });
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(okResponse({ title: "Buy oat milk", version: 2 }, 409))
+      .mockResolvedValueOnce(okResponse({ title: "Buy oat milk", version: 3, done: true }));
+
+    const { response } = offlineQueue.enqueue({ url: "/api/todos/1", method: "PUT", headers: {}, body: '{"done":true,"version":1}' });
+    await offlineQueue.replay();
+
+    expect(onConflict).toHaveBeenCalledTimes(1);
+    expect(JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body)).toEqual({ title: "Buy oat milk", version: 2, done: true });
+    expect((await response).status).toBe(200);
+  });
+
+  it("should settle requests that keep conflicting, and stop replaying once disposed", async () => {
+    const onConflict = jest.fn(() => ({ body: "{}" }));
+    const offlineQueue = createOfflineQueue({ onConflict, maxConflictRetries: 2 });
+    (global.fetch as jest.Mock).mockResolvedValue(okResponse({}, 409));
+
+    const { response } = offlineQueue.enqueue({ url: "/api/todos/1", method: "PUT", headers: {}, body: "{}" });
+    await offlineQueue.replay();
+
+    expect(onConflict).toHaveBeenCalledTimes(2);
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    expect((await response).status).toBe(409);
+
+    offlineQueue.dispose();
+    offlineQueue.enqueue({ url: "/api/todos/2", method: "PUT", headers: {}, body: "{}" });
+    await goOnline();
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("should reject requests whose conflict can't be resolved and replay the rest", async () => {
+    const error = new Error("Merge failed");
+    const offlineQueue = createOfflineQueue({ onConflict: () => Promise.reject(error), autoReplay: false });
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(okResponse({}, 409))
+      .mockResolvedValueOnce(okResponse({ id: 2 }));
+
+    const first = offlineQueue.enqueue({ url: "/api/todos/1", method: "PUT", headers: {}, body: "{}" });
+    const second = offlineQueue.enqueue({ url: "/api/todos/2", method: "PUT", headers: {}, body: "{}" });
+    await offlineQueue.replay();
+
+    await expect(first.response).rejects.toBe(error);
+    expect((await second.response).status).toBe(200);
+    expect(offlineQueue.requests()).toEqual([]);
+  });
+
+  it("should keep requests from a previous session and replay them in order", async () => {
+    const storage = localStorageStorage("queue-test");
+    const previous = createOfflineQueue({ storage, autoReplay: false });
+    await previous.ready;
+    previous.enqueue({ url: "/api/a", method: "POST", headers: {}, body: "a" });
+    previous.enqueue({ url: "/api/b", method: "DELETE", headers: {} });
+    await new Promise<void>(resolve => setTimeout(resolve, 0));
+
+    (global.fetch as jest.Mock).mockResolvedValue(okResponse(null, 204));
+    const onReplay = jest.fn();
+    const queue = createOfflineQueue({ storage, onReplay, autoReplay: false });
+    await queue.replay();
+
+    expect((global.fetch as jest.Mock).mock.calls.map(([url, init]) => `${init.method} ${url}`)).toEqual(["POST /api/a", "DELETE /api/b"]);
+    expect(onReplay).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(localStorage.getItem("queue-test")!)).toEqual([]);
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * An opt-in queue for mutations made while offline.
+ *
+ * Pass the queue as `offlineQueue` to `useMutation` or to `useFetch` with an unsafe
+ * method (POST, PUT, PATCH, DELETE...). When the browser is offline, or the request
+ * can't reach the server, it is stored instead of failing: the hook reports
+ * `queueStatus: 'queued'`, and `'pending'` while the queue sends it again. Requests
+ * that timed out are only queued for idempotent methods, as the server may already
+ * have applied them.
+ *
+ * Queued requests are persisted to `storage` (in memory by default, `localStorageStorage()`
+ * or `indexedDBStorage()` to survive reloads) and replayed one by one, in the order they
+ * were made, with their original method, headers and body, whenever the browser comes
+ * back online. The hook that queued a request receives its response, if still mounted.
+ *
+ * Responses with a conflict status (409 and 412 by default) go through `onConflict`,
+ * which decides to settle the request with that response (`'discard'`), keep it for the
+ * next replay (`'retry'`) or send an updated request, e.g. with a merged body. After
+ * `maxConflictRetries` retries or updates, the request is settled with the conflict. When
+ * `onConflict` throws, the request leaves the queue and its sender gets the error.
+ *
+ * Only string bodies (including JSON sent by `useMutation`) can be queued; requests with
+ * other bodies fail as usual. Replays use the queue's `fetch`, not the hook's interceptors.
+ * `dispose()` stops replaying on reconnect, for queues created for a while only.
+ *
+ * @example
+ * ```ts
+ * const offlineQueue = createOfflineQueue({
+ *   storage: localStorageStorage(),
+ *   onConflict: async (request, response) => {
+ *     const latest = await response.json();
+ *     return { body: JSON.stringify({ ...latest, ...JSON.parse(request.body!) }) };
+ *   },
+ * });
+ *
+ * const { mutate, queueStatus } = useMutation<Todo, NewTodo>('/api/todos', { offlineQueue });
+ * ```
+ */
+import { toHeaderRecord } from './NetworkProvider';
+import { AbortError, NetworkFailureError, TimeoutError, toNetworkError } from './errors';
+import { onSignalAbort, RequestEmitter } from './request';
+
+const DEFAULT_STORAGE_KEY = 'network-react:offline-queue';
+const DEFAULT_DATABASE_NAME = 'network-react';
+const DEFAULT_CONFLICT_STATUS = [409, 412];
+const DEFAULT_MAX_CONFLICT_RETRIES = 3;
+
+type QueueStatus = 'queued' | 'pending';
+
+interface QueuedRequestInit {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+interface QueuedRequest extends QueuedRequestInit {
+  id: string;
+  queuedAt: number;
+  status: QueueStatus;
+  /** How many times a conflict was resolved with `'retry'` or an updated request. */
+  conflicts?: number;
+}
+
+interface OfflineQueueStorage {
+  load: () => QueuedRequest[] | Promise<QueuedRequest[]>;
+  save: (requests: QueuedRequest[]) => void | Promise<void>;
+}
+
+type ConflictResolution = 'discard' | 'retry' | Partial<QueuedRequestInit>;
+
+interface OfflineQueueOptions {
+  storage?: OfflineQueueStorage;
+  /** Sends replayed requests, defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+  /** Whether a replayed response is a conflict, by default a 409 or 412 status. */
+  isConflict?: (response: Response) => boolean;
+  onConflict?: (request: QueuedRequest, response: Response) => ConflictResolution | Promise<ConflictResolution>;
+  /** How many times a request is retried after conflicts before it settles with one, defaults to 3. */
+  maxConflictRetries?: number;
+  /** Called with the response of every replayed request, including those queued before a reload. */
+  onReplay?: (request: QueuedRequest, response: Response) => void;
+  /** Whether to replay when the browser comes back online, defaults to true. */
+  autoReplay?: boolean;
+}
+
+type OfflineQueueListener = (requests: QueuedRequest[]) => void;
+
+interface OfflineQueue {
+  enqueue: (request: QueuedRequestInit) => { id: string; response: Promise<Response> };
+  replay: () => Promise<void>;
+  requests: () => QueuedRequest[];
+  remove: (id: string) => void;
+  clear: () => void;
+  subscribe: (listener: OfflineQueueListener) => () => void;
+  /** Resolves once the requests persisted by a previous session are loaded. */
+  ready: Promise<void>;
+  /** Stops replaying when the browser comes back online. */
+  dispose: () => void;
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+let lastId = 0;
+const createId = () => `${Date.now().toString(36)}-${(++lastId).toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const memoryStorage = (): OfflineQueueStorage => {
+  let stored: QueuedRequest[] = [];
+  return {
+    load: () => stored,
+    save: requests => {
+      stored = requests;
+    },
+  };
+};
+
+const localStorageStorage = (key: string = DEFAULT_STORAGE_KEY): OfflineQueueStorage => ({
+  load: () => {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(key) : null;
+    return raw ? JSON.parse(raw) : [];
+  },
+  save: requests => {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(key, JSON.stringify(requests));
+    }
+  },
+});
+
+const indexedDBStorage = (databaseName: string = DEFAULT_DATABASE_NAME, storeName: string = 'offline-queue'): OfflineQueueStorage => {
+  let database: Promise<IDBDatabase> | undefined;
+  const open = () => {
+    database = database || new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+  const run = async <R>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<R>) => {
+    const store = (await open()).transaction(storeName, mode).objectStore(storeName);
+    return new Promise<R>((resolve, reject) => {
+      const request = operation(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+  return {
+    load: async () => (await run<QueuedRequest[] | undefined>('readonly', store => store.get('requests'))) || [],
+    save: async requests => {
+      await run('readwrite', store => store.put(requests, 'requests'));
+    },
+  };
+};
+
+const createOfflineQueue = (options: OfflineQueueOptions = {}): OfflineQueue => {
+  const {
+    storage = memoryStorage(),
+    isConflict = (response: Response) => DEFAULT_CONFLICT_STATUS.includes(response.status),
+    onConflict,
+    maxConflictRetries = DEFAULT_MAX_CONFLICT_RETRIES,
+    onReplay,
+    autoReplay = true,
+  } = options;
+  let requests: QueuedRequest[] = [];
+  const waiting = new Map<string, { resolve: (response: Response) => void; reject: (error: unknown) => void }>();
+  const listeners = new Set<OfflineQueueListener>();
+  let replaying = false;
+
+  const update = (next: QueuedRequest[]) => {
+    requests = next;
+    listeners.forEach(listener => listener(requests));
+    Promise.resolve()
+      .then(() => storage.save(requests))
+      .catch(error => console.warn('Could not persist the offline queue.', error));
+  };
+
+  const patch = (id: string, changes: Partial<QueuedRequest>) => {
+    update(requests.map(request => request.id === id ? { ...request, ...changes } : request));
+  };
+
+  const settle = (id: string, response: Response) => {
+    update(requests.filter(request => request.id !== id));
+    waiting.get(id)?.resolve(response);
+    waiting.delete(id);
+  };
+
+  const fail = (id: string, error: unknown) => {
+    update(requests.filter(request => request.id !== id));
+    waiting.get(id)?.reject(error);
+    waiting.delete(id);
+  };
+
+  const ready = Promise.resolve()
+    .then(() => storage.load())
+    .then(loaded => {
+      // requests made before the storage was loaded are newer than the stored ones
+      update([...loaded.map(request => ({ ...request, status: 'queued' as QueueStatus })), ...requests]);
+    })
+    .catch(error => console.warn('Could not load the offline queue.', error));
+
+  const replay = async () => {
+    await ready;
+    if (replaying) return;
+    replaying = true;
+    try {
+      while (requests.length > 0 && !isOffline()) {
+        const request = requests[0];
+        patch(request.id, { status: 'pending' });
+        let response: Response;
+        try {
+          response = await (options.fetch || fetch)(request.url, { method: request.method, headers: request.headers, body: request.body });
+        } catch {
+          // still offline, try again on the next reconnect
+          patch(request.id, { status: 'queued' });
+          break;
+        }
+        const conflicts = request.conflicts || 0;
+        if (onConflict && isConflict(response) && conflicts < maxConflictRetries) {
+          let resolution: ConflictResolution;
+          try {
+            resolution = await onConflict(request, response);
+          } catch (error) {
+            // the request can't be resolved, its sender gets the error
+            fail(request.id, error);
+            continue;
+          }
+          if (resolution === 'retry') {
+            patch(request.id, { status: 'queued', conflicts: conflicts + 1 });
+            break;
+          }
+          if (resolution !== 'discard') {
+            patch(request.id, { ...resolution, status: 'queued', conflicts: conflicts + 1 });
+            continue;
+          }
+        }
+        settle(request.id, response);
+        onReplay?.(request, response);
+      }
+    } finally {
+      replaying = false;
+    }
+  };
+
+  const enqueue = (init: QueuedRequestInit) => {
+    const request: QueuedRequest = { ...init, id: createId(), queuedAt: Date.now(), status: 'queued' };
+    const response = new Promise<Response>((resolve, reject) => {
+      waiting.set(request.id, { resolve, reject });
+    });
+    // nobody may be waiting for it anymore when it is removed
+    response.catch(() => undefined);
+    update([...requests, request]);
+    return { id: request.id, response };
+  };
+
+  const remove = (id: string) => {
+    fail(id, new AbortError('The request was removed from the offline queue.'));
+  };
+
+  const onOnline = () => {
+    // requests that couldn't be replayed stay queued for the next reconnect
+    replay().catch(() => undefined);
+  };
+
+  if (autoReplay && typeof window !== 'undefined') {
+    window.addEventListener('online', onOnline);
+    ready.then(() => {
+      if (requests.length > 0) onOnline();
+    });
+  }
+
+  return {
+    enqueue,
+    replay,
+    requests: () => requests,
+    remove,
+    clear: () => requests.map(request => request.id).forEach(remove),
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    ready,
+    dispose: () => {
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('online', onOnline);
+      }
+    },
+  };
+};
+
+const toQueuedRequest = (url: string, init: RequestInit): QueuedRequestInit | undefined => {
+  const { body } = init;
+  if (body !== undefined && body !== null && typeof body !== 'string') {
+    return undefined;
+  }
+  return { url, method: init.method || 'GET', headers: toHeaderRecord(init.headers || {}), body: body ?? undefined };
+};
+
+/**
+ * Sends a mutation with `send`, or hands it to `queue` when the browser is offline or
+ * the request can't reach the server, and resolves once the queue has replayed it.
+ * Aborting `signal` stops waiting for a queued request, which stays queued.
+ */
+const sendOrQueue = async <T>(
+  queue: OfflineQueue | undefined,
+  url: string,
+  init: RequestInit,
+  idempotent: boolean,
+  send: () => Promise<T>,
+  handleResponse: (response: Response) => Promise<T>,
+  signal: AbortSignal,
+  emit: RequestEmitter
+): Promise<T> => {
+  const queued = queue ? toQueuedRequest(url, init) : undefined;
+  if (!queue || !queued) {
+    return send();
+  }
+  if (!isOffline()) {
+    try {
+      return await send();
+    } catch (err) {
+      const error = toNetworkError(err);
+      const unreachable = error instanceof NetworkFailureError || (idempotent && error instanceof TimeoutError);
+      if (!unreachable && !isOffline()) throw error;
+    }
+  }
+
+  const { id, response } = queue.enqueue(queued);
+  emit({ type: 'queue', status: 'queued' });
+  const unsubscribe = queue.subscribe(requests => {
+    const request = requests.find(request => request.id === id);
+    if (request) {
+      emit({ type: 'queue', status: request.status });
+    }
+  });
+  let stopListening: () => void = () => undefined;
+  try {
+    const replayed = await new Promise<Response>((resolve, reject) => {
+      stopListening = onSignalAbort(signal, () => reject(new AbortError()));
+      response.then(resolve, reject);
+    });
+    return await handleResponse(replayed);
+  } finally {
+    stopListening();
+    unsubscribe();
+    emit({ type: 'queue', status: undefined });
+  }
+};
+
+export type {
+  QueueStatus,
+  QueuedRequest,
+  QueuedRequestInit,
+  OfflineQueue,
+  OfflineQueueOptions,
+  OfflineQueueStorage,
+  ConflictResolution,
+};
+
+export {
+  createOfflineQueue,
+  memoryStorage,
+  localStorageStorage,
+  indexedDBStorage,
+  sendOrQueue,
+};
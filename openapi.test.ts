@@ -0,0 +1,102 @@
+import { renderHook } from "@testing-library/react-hooks";
+import { useFetch } from "./useFetch";
+import { createOpenAPIHooks } from "./openapi";
+import { buildUrl } from "./url";
+
+// the shape openapi-typescript generates for a small users API
+interface User {
+  id: number;
+  name: string;
+}
+
+interface paths {
+  "/api/users": {
+    get: {
+      parameters: { query?: { page?: number; tag?: string[] } };
+      responses: { 200: { content: { "application/json": User[] } } };
+    };
+    post: {
+      parameters: { query?: never };
+      requestBody: { content: { "application/json": { name: string } } };
+      responses: { 201: { content: { "application/json": User } }; 422: { content: { "application/json": { message: string } } } };
+    };
+  };
+  "/api/users/{id}": {
+    get: {
+      parameters: { path: { id: number } };
+      responses: { 200: { content: { "application/json": User } }; 404: { content?: never } };
+    };
+    delete: {
+      parameters: { path: { id: number } };
+      responses: { 204: { content?: never } };
+    };
+    put?: never;
+  };
+}
+
+describe("path and query parameters", () => {
+  beforeEach(() => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, status: 200, json: async () => ({ id: 1, name: "Ada" }) } as Response);
+  });
+
+  it("should interpolate path parameters and serialize the query", () => {
+    expect(buildUrl("/api/users/{id}/posts", { id: 42 }, { tag: ["a b", "c"], page: 2, draft: undefined })).toBe("/api/users/42/posts?tag=a%20b&tag=c&page=2");
+    expect(buildUrl("/api/users/:id?sort=name", { id: "a/b" }, { page: 1 })).toBe("/api/users/a%2Fb?sort=name&page=1");
+    expect(buildUrl("/api/users/{id}", {})).toBe("/api/users/{id}");
+  });
+
+  it("should fetch the interpolated URL", async () => {
+    const { result, waitFor } = renderHook(() => useFetch<User>("/api/users/{id}", { params: { id: 1 }, query: { expand: "teams" }, debounceTime: 0 }));
+    await waitFor(() => expect(result.current.data).toEqual({ id: 1, name: "Ada" }));
+
+    expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe("/api/users/1?expand=teams");
+  });
+});
+
+describe("createOpenAPIHooks", () => {
+  const api = createOpenAPIHooks<paths>();
+
+  beforeEach(() => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, status: 201, json: async () => ({ id: 2, name: "Grace" }) } as Response);
+  });
+
+  it("should send typed parameters and JSON bodies", async () => {
+    const { result, waitFor } = renderHook(() => api.useFetch("/api/users", { method: "POST", body: { name: "Grace" }, debounceTime: 0 }));
+    await waitFor(() => expect(result.current.data).toEqual({ id: 2, name: "Grace" }));
+
+    const user: User | undefined = result.current.data;
+    expect(user?.name).toBe("Grace");
+    expect(global.fetch).toHaveBeenCalledWith("/api/users", expect.objectContaining({
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: '{"name":"Grace"}',
+    }));
+  });
+
+  it("should check paths, parameters and bodies at compile time", () => {
+    // only called to be type-checked, the hooks never render
+    const typeCheck = () => {
+      const users: User[] | undefined = api.useFetch("/api/users", { query: { page: 2 } }).data;
+      const user: User | undefined = api.useFetch("/api/users/{id}", { params: { id: 1 } }).data;
+      api.useFetch("/api/users/{id}", { method: "DELETE", params: { id: 1 } });
+      // @ts-expect-error path parameters are required
+      api.useFetch("/api/users/{id}");
+      // @ts-expect-error path parameters are typed
+      api.useFetch("/api/users/{id}", { params: { id: "1" } });
+      // @ts-expect-error the query is typed
+      api.useFetch("/api/users", { query: { page: "2" } });
+      // @ts-expect-error the path is not declared
+      api.useFetch("/api/teams");
+      // @ts-expect-error the method is not declared for the path
+      api.useFetch("/api/users/{id}", { method: "PUT", params: { id: 1 } });
+      // @ts-expect-error the body is required
+      api.useFetch("/api/users", { method: "POST" });
+      // @ts-expect-error the body is typed
+      api.useFetch("/api/users", { method: "POST", body: { title: "Grace" } });
+      // @ts-expect-error data is typed from the response
+      const name: string | undefined = api.useFetch("/api/users/{id}", { params: { id: 1 } }).data;
+      return [users, user, name];
+    };
+    expect(typeCheck).toBeInstanceOf(Function);
+  });
+});
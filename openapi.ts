@@ -0,0 +1,117 @@
+/**
+ * Typed `useFetch` for APIs described by an OpenAPI 3 document.
+ *
+ * Generate the `paths` type of the document with
+ * [openapi-typescript](https://openapi-ts.dev) (`npx openapi-typescript ./openapi.yaml -o ./api.d.ts`)
+ * and pass it to `createOpenAPIHooks`. The returned `useFetch` only accepts paths the
+ * document declares for the method, and types from the matching operation:
+ *
+ * - `params`: the path parameters, required when the path has placeholders.
+ * - `query`: the query parameters, required when one of them is.
+ * - `body`: the JSON request body, serialized with a `Content-Type: application/json` header.
+ * - `data`: the JSON body of the success (2xx) responses.
+ *
+ * Everything else is plain `useFetch`: the same options, provider defaults and cache keys.
+ *
+ * @example
+ * ```tsx
+ * import type { paths } from './api';
+ *
+ * const { useFetch } = createOpenAPIHooks<paths>();
+ *
+ * const { data } = useFetch('/api/users/{id}', { params: { id } });
+ * //      ^? components['schemas']['User'] | undefined
+ * const { data: posts } = useFetch('/api/users/{id}/posts', { params: { id }, query: { page: 2 } });
+ * const { data: created } = useFetch('/api/users', { method: 'POST', body: { name: 'Ada' }, enabled: submitted });
+ * ```
+ */
+import { useFetch as useBaseFetch, FetchState, UseFetchConfig } from './useFetch';
+import { isRawBody } from './useMutation';
+import { mergeHeaders } from './NetworkProvider';
+
+type HttpMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'DELETE' | 'OPTIONS' | 'TRACE' | 'PATCH';
+
+type SuccessStatus = 200 | 201 | 202 | 203 | 204 | 206 | '2XX';
+
+/** The operation declared for `method` on `path`, `never` if there is none. */
+type PathOperation<Paths, P extends keyof Paths, M extends HttpMethod> =
+  Lowercase<M> extends keyof Paths[P] ? NonNullable<Paths[P][Lowercase<M>]> : never;
+
+/** The paths that declare an operation for `method`. */
+type PathsWithMethod<Paths, M extends HttpMethod> = {
+  [P in keyof Paths]-?: [PathOperation<Paths, P, M>] extends [never] ? never : P;
+}[keyof Paths] & string;
+
+type OperationParameters<Op, In extends 'path' | 'query'> =
+  Op extends { parameters: infer Parameters } ? In extends keyof Parameters ? NonNullable<Parameters[In]> : never : never;
+
+type ContentOf<Body> = Body extends { content: infer Content }
+  ? 'application/json' extends keyof Content ? Content['application/json'] : Content[keyof Content]
+  : undefined;
+
+type OperationBody<Op> = Op extends { requestBody?: infer Body } ? ContentOf<NonNullable<Body>> : never;
+
+/** The JSON body of the success responses of an operation. */
+type OperationData<Op> = Op extends { responses: infer Responses }
+  ? ContentOf<Responses[Extract<keyof Responses, SuccessStatus>]>
+  : unknown;
+
+/** `{ key: Value }` when a value is required, `{ key?: Value }` when not and `{ key?: never }` when unused. */
+type Field<Key extends string, Value, Required extends boolean = {} extends Value ? false : true> =
+  [Value] extends [never]
+    ? { [K in Key]?: never }
+    : Required extends true ? { [K in Key]: Value } : { [K in Key]?: Value };
+
+type OpenAPIFetchConfig<Op, M extends HttpMethod> =
+  Omit<UseFetchConfig<OperationData<Op>>, 'method' | 'params' | 'query' | 'body' | 'suspense' | 'runInFuture'>
+  & { method?: M }
+  & Field<'params', OperationParameters<Op, 'path'>>
+  & Field<'query', OperationParameters<Op, 'query'>>
+  & Field<'body', OperationBody<Op>, Op extends { requestBody: unknown } ? true : false>;
+
+/** The config argument, optional when the operation requires none of its fields. */
+type OpenAPIFetchArgs<Op, M extends HttpMethod> =
+  {} extends OpenAPIFetchConfig<Op, M> ? [config?: OpenAPIFetchConfig<Op, M>] : [config: OpenAPIFetchConfig<Op, M>];
+
+interface OpenAPIHooks<Paths> {
+  useFetch: <P extends PathsWithMethod<Paths, M>, M extends HttpMethod = 'GET'>(
+    path: P,
+    ...args: OpenAPIFetchArgs<PathOperation<Paths, P, M>, M>
+  ) => FetchState<OperationData<PathOperation<Paths, P, M>>>;
+}
+
+/** Turns a typed config into a `useFetch` one, serializing JSON bodies. */
+const toFetchConfig = (config: { body?: unknown; headers?: HeadersInit } = {}): UseFetchConfig => {
+  const { body } = config;
+  if (body === undefined || body === null || isRawBody(body)) {
+    return config as UseFetchConfig;
+  }
+  return {
+    ...config,
+    headers: mergeHeaders({ 'Content-Type': 'application/json' }, config.headers),
+    body: JSON.stringify(body),
+  } as UseFetchConfig;
+};
+
+/**
+ * Creates hooks typed from the `paths` of an OpenAPI 3 document, as generated by
+ * openapi-typescript. Nothing happens at runtime: the hooks forward to `useFetch`.
+ */
+const createOpenAPIHooks = <Paths extends {}>(): OpenAPIHooks<Paths> => ({
+  useFetch: (path, ...[config]) => useBaseFetch(path, toFetchConfig(config)),
+});
+
+export type {
+  HttpMethod,
+  PathOperation,
+  PathsWithMethod,
+  OperationParameters,
+  OperationBody,
+  OperationData,
+  OpenAPIFetchConfig,
+  OpenAPIHooks,
+};
+
+export {
+  createOpenAPIHooks,
+};
@@ -0,0 +1,76 @@
+/**
+ * Response body parsing for `useFetch`.
+ *
+ * - `json` (default): `response.json()`, or `undefined` when `Content-Length` is `0`.
+ * - `text`, `blob`, `arrayBuffer`, `formData`: the matching `Response` reader.
+ * - `stream`: the raw `ReadableStream` from `response.body`, left unread.
+ * - `none`: the body is ignored and `data` stays `undefined`.
+ * - `auto`: picked from the `Content-Type` header (JSON, text, form data, otherwise a blob).
+ *
+ * Responses that can't have a body – `HEAD` requests and `204`/`205`/`304` statuses –
+ * always resolve to `undefined`, so e.g. a `DELETE` answered with `204 No Content`
+ * succeeds instead of failing in `response.json()`. An empty body of unknown length
+ * still fails to parse as JSON, `auto` reads it as text instead.
+ */
+import { toHeaderRecord } from './NetworkProvider';
+
+type FetchResponseType = 'json' | 'text' | 'blob' | 'arrayBuffer' | 'formData' | 'stream' | 'none' | 'auto';
+
+type ResponseParser<T> = (response: Response) => T | Promise<T>;
+
+const NO_BODY_STATUS = [204, 205, 304];
+
+const hasNoBody = (response: Response, method?: string) =>
+  method === 'HEAD' || NO_BODY_STATUS.includes(response.status);
+
+const detectResponseType = (response: Response): Exclude<FetchResponseType, 'auto'> => {
+  const contentType = (response.headers?.get('content-type') || '').toLowerCase();
+  if (response.headers?.get('content-length') === '0') return 'none';
+  if (/[/+]json\b/.test(contentType)) return 'json';
+  if (contentType.startsWith('text/') || /[/+]xml\b/.test(contentType) || contentType.includes('javascript')) return 'text';
+  if (contentType.startsWith('multipart/form-data') || contentType.startsWith('application/x-www-form-urlencoded')) return 'formData';
+  if (!contentType) return 'text';
+  return 'blob';
+};
+
+/** `response.json()`, except that a body announced as empty is `undefined` rather than a syntax error. */
+const parseJson = (response: Response): Promise<any> =>
+  response.headers?.get('content-length') === '0' ? Promise.resolve(undefined) : response.json();
+
+const parseResponse = async (
+  response: Response,
+  responseType: FetchResponseType = 'json',
+  method?: string
+): Promise<any> => {
+  if (responseType === 'none' || hasNoBody(response, method)) {
+    return undefined;
+  }
+
+  const type = responseType === 'auto' ? detectResponseType(response) : responseType;
+  switch (type) {
+    case 'text':
+      return response.text();
+    case 'blob':
+      return response.blob();
+    case 'arrayBuffer':
+      return response.arrayBuffer();
+    case 'formData':
+      return response.formData();
+    case 'stream':
+      return response.body;
+    case 'none':
+      return undefined;
+    default:
+      return parseJson(response);
+  }
+};
+
+/** Returns the response headers as a plain object, the default result of `useFetchHead`. */
+const parseHeaders = (response: Response): Record<string, string> => toHeaderRecord(response.headers);
+
+export type { FetchResponseType, ResponseParser };
+
+export {
+  parseResponse,
+  parseHeaders,
+};
@@ -0,0 +1,156 @@
+import { ReadableStream } from "stream/web";
+import { renderHook, act } from "@testing-library/react-hooks";
+import { useFetch, useFetchPost } from "./useFetch";
+
+// jsdom has neither streams nor `Response`, just enough of both for the hooks
+class MockResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: Map<string, string>;
+
+  constructor(public body: ReadableStream<Uint8Array> | string, init: { status?: number; statusText?: string; headers?: Record<string, string> } = {}) {
+    this.status = init.status ?? 200;
+    this.statusText = init.statusText ?? "";
+    this.ok = this.status >= 200 && this.status < 300;
+    this.headers = new Map(Object.entries(init.headers || {}));
+  }
+
+  async text() {
+    if (typeof this.body === "string") return this.body;
+    const reader = this.body.getReader();
+    let text = "";
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      text += Buffer.from(chunk.value).toString();
+    }
+    return text;
+  }
+
+  async json() {
+    return JSON.parse(await this.text());
+  }
+}
+
+class MockXMLHttpRequest {
+  static last?: MockXMLHttpRequest;
+  upload: { onprogress?: (event: ProgressEvent) => void } = {};
+  method = "";
+  url = "";
+  headers: Record<string, string> = {};
+  body?: XMLHttpRequestBodyInit | null;
+  status = 0;
+  statusText = "";
+  response: string | null = null;
+  responseType = "";
+  withCredentials = false;
+  onprogress?: (event: ProgressEvent) => void;
+  onload?: () => void;
+  onerror?: () => void;
+  ontimeout?: () => void;
+  onabort?: () => void;
+
+  constructor() {
+    MockXMLHttpRequest.last = this;
+  }
+
+  open(method: string, url: string) {
+    this.method = method;
+    this.url = url;
+  }
+
+  setRequestHeader(key: string, value: string) {
+    this.headers[key] = value;
+  }
+
+  getAllResponseHeaders() {
+    return "Content-Type: application/json\r\n";
+  }
+
+  send(body?: XMLHttpRequestBodyInit | null) {
+    this.body = body;
+  }
+
+  abort() {
+    this.onabort?.();
+  }
+
+  respond(status: number, response: string) {
+    this.status = status;
+    this.response = response;
+    this.onload?.();
+  }
+}
+
+describe("progress", () => {
+  const originalXMLHttpRequest = global.XMLHttpRequest;
+
+  beforeEach(() => {
+    Object.assign(globalThis, { Response: MockResponse, ReadableStream, XMLHttpRequest: MockXMLHttpRequest });
+    MockXMLHttpRequest.last = undefined;
+  });
+
+  afterAll(() => {
+    global.XMLHttpRequest = originalXMLHttpRequest;
+  });
+
+  it("should report download progress while the body is read", async () => {
+    const chunks = ['{"name":', '"Ada"}'].map(chunk => new Uint8Array(Buffer.from(chunk)));
+    global.fetch = jest.fn().mockResolvedValue(new MockResponse(
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          chunks.forEach(chunk => controller.enqueue(chunk));
+          controller.close();
+        },
+      }),
+      { headers: { "Content-Length": "14" } }
+    ));
+    const onDownloadProgress = jest.fn();
+
+    const { result, waitFor } = renderHook(() => useFetch("/user", { debounceTime: 0, onDownloadProgress }));
+    await waitFor(() => expect(result.current.data).toEqual({ name: "Ada" }));
+
+    expect(onDownloadProgress.mock.calls.map(([progress]) => progress.percentage)).toEqual([0, 57, 100]);
+    expect(result.current.progress).toEqual({ direction: "download", loaded: 14, total: 14, percentage: 100 });
+  });
+
+  it("should send bodies with XMLHttpRequest to report upload progress", async () => {
+    global.fetch = jest.fn();
+    const onUploadProgress = jest.fn();
+
+    const { result, waitFor } = renderHook(() =>
+      useFetchPost<{ id: number }>("/files", { body: "file contents", headers: { "X-Name": "a.txt" }, debounceTime: 0, onUploadProgress })
+    );
+    await waitFor(() => expect(MockXMLHttpRequest.last?.body).toBe("file contents"));
+    const xhr = MockXMLHttpRequest.last!;
+    expect(xhr.method).toBe("POST");
+    expect(xhr.headers).toEqual({ "X-Name": "a.txt" });
+
+    act(() => {
+      xhr.upload.onprogress?.({ loaded: 5, total: 13, lengthComputable: true } as ProgressEvent);
+    });
+    expect(result.current.progress).toEqual({ direction: "upload", loaded: 5, total: 13, percentage: 38 });
+    expect(onUploadProgress).toHaveBeenCalledWith(result.current.progress);
+
+    act(() => {
+      xhr.respond(201, '{"id":1}');
+    });
+    await waitFor(() => expect(result.current.data).toEqual({ id: 1 }));
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it("should abort uploads", async () => {
+    const { result, waitFor } = renderHook(() =>
+      useFetch("/files", { method: "PUT", body: "file contents", debounceTime: 0, retry: 0, trackProgress: true })
+    );
+    await waitFor(() => expect(MockXMLHttpRequest.last?.body).toBe("file contents"));
+    const xhr = MockXMLHttpRequest.last!;
+    const abort = jest.spyOn(xhr, "abort");
+
+    act(() => {
+      result.current.abort();
+    });
+
+    expect(abort).toHaveBeenCalled();
+    expect(result.current.loading).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Upload and download progress for `useFetch`.
+ *
+ * `fetch` can't report upload progress, so requests with a body are sent with
+ * `XMLHttpRequest` when upload progress is tracked (`createXhrFetch`), which reports
+ * both directions. Other responses report download progress by counting the bytes of
+ * their body stream as it is read (`trackDownloadProgress`), so `response.json()` and
+ * friends keep working on top of it.
+ *
+ * `total` comes from the `Content-Length` header (or the upload body size) and is
+ * `undefined` when unknown, as is `percentage`.
+ */
+import { toHeaderRecord } from './NetworkProvider';
+import { AbortError } from './errors';
+
+type ProgressDirection = 'upload' | 'download';
+
+interface Progress {
+  direction: ProgressDirection;
+  loaded: number;
+  total?: number;
+  percentage?: number;
+}
+
+type ProgressCallback = (progress: Progress) => void;
+
+interface ProgressOptions {
+  trackProgress?: boolean;
+  onUploadProgress?: ProgressCallback;
+  onDownloadProgress?: ProgressCallback;
+}
+
+type ProgressOption = keyof ProgressOptions;
+
+// statuses whose response must not have a body
+const NULL_BODY_STATUS = [101, 204, 205, 304];
+
+const createProgress = (direction: ProgressDirection, loaded: number, total?: number): Progress => ({
+  direction,
+  loaded,
+  total,
+  percentage: total ? Math.min(100, Math.round((loaded / total) * 100)) : undefined,
+});
+
+const parseContentLength = (response: Response): number | undefined => {
+  const header = response.headers?.get('Content-Length');
+  const length = header ? Number(header) : NaN;
+  return isNaN(length) ? undefined : length;
+};
+
+/** Returns a copy of `response` whose body reports progress to `onProgress` while it is read. */
+const trackDownloadProgress = (response: Response, onProgress: ProgressCallback): Response => {
+  if (!response.body || typeof ReadableStream === 'undefined') {
+    return response;
+  }
+  const total = parseContentLength(response);
+  const reader = response.body.getReader();
+  let loaded = 0;
+  onProgress(createProgress('download', loaded, total));
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+      loaded += value.byteLength;
+      onProgress(createProgress('download', loaded, total));
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+};
+
+const parseXhrHeaders = (raw: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  raw.trim().split(/[\r\n]+/).forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+    }
+  });
+  return headers;
+};
+
+/**
+ * A `fetch` backed by `XMLHttpRequest`, reporting upload and download progress to
+ * `onProgress`. Aborting `init.signal` aborts the request.
+ */
+const createXhrFetch = (onProgress: ProgressCallback): typeof fetch =>
+  (input: RequestInfo | URL, init: RequestInit = {}) => new Promise<Response>((resolve, reject) => {
+    const { signal } = init;
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    const settle = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.open(init.method || 'GET', String(input));
+    xhr.responseType = 'blob';
+    xhr.withCredentials = init.credentials === 'include';
+    const headers = toHeaderRecord(init.headers || {});
+    Object.keys(headers).forEach(key => xhr.setRequestHeader(key, headers[key]));
+
+    xhr.upload.onprogress = event => onProgress(createProgress('upload', event.loaded, event.lengthComputable ? event.total : undefined));
+    xhr.onprogress = event => onProgress(createProgress('download', event.loaded, event.lengthComputable ? event.total : undefined));
+    xhr.onload = () => {
+      settle();
+      const body = NULL_BODY_STATUS.includes(xhr.status) ? null : xhr.response;
+      resolve(new Response(body, { status: xhr.status, statusText: xhr.statusText, headers: parseXhrHeaders(xhr.getAllResponseHeaders()) }));
+    };
+    // same errors as `fetch`, so they are reported and retried the same way
+    xhr.onerror = xhr.ontimeout = () => {
+      settle();
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(new AbortError());
+    };
+
+    signal?.addEventListener('abort', onAbort);
+    xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+
+export type { Progress, ProgressCallback, ProgressDirection, ProgressOptions, ProgressOption };
+
+export {
+  trackDownloadProgress,
+  createXhrFetch,
+};
@@ -0,0 +1,89 @@
+import { renderHook, act } from "@testing-library/react-hooks";
+import { useFetch } from "./useFetch";
+import { useGraphQL } from "./useGraphQL";
+
+describe("refetch triggers", () => {
+  const okResponse = (body: unknown) => ({
+    ok: true,
+    json: async () => body,
+  } as Response);
+
+  const setVisibility = (state: DocumentVisibilityState) => {
+    Object.defineProperty(document, "visibilityState", { configurable: true, get: () => state });
+    document.dispatchEvent(new Event("visibilitychange"));
+  };
+
+  const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+  beforeEach(() => {
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    setVisibility("visible");
+  });
+
+  it("should poll in the background without resetting loading", async () => {
+    let count = 0;
+    (global.fetch as jest.Mock).mockImplementation(async () => okResponse({ count: ++count }));
+
+    const { result, waitFor } = renderHook(() => useFetch("/stats", { debounceTime: 0, refetchInterval: 50 }));
+    await waitFor(() => expect(result.current.data).toEqual({ count: 1 }));
+    expect(result.current.loading).toBe(false);
+    expect(result.current.isFetching).toBe(false);
+
+    const states: boolean[] = [];
+    await waitFor(() => {
+      states.push(result.current.loading);
+      expect(result.current.data).toEqual({ count: 3 });
+    });
+    expect(states).not.toContain(true);
+  });
+
+  it("should pause polling while the page is hidden", async () => {
+    (global.fetch as jest.Mock).mockImplementation(async () => okResponse({}));
+
+    const { result, waitFor } = renderHook(() => useFetch("/stats", { debounceTime: 0, refetchInterval: 30 }));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    act(() => setVisibility("hidden"));
+    const calls = (global.fetch as jest.Mock).mock.calls.length;
+    await act(() => sleep(100));
+    expect(global.fetch).toHaveBeenCalledTimes(calls);
+
+    act(() => setVisibility("visible"));
+    await waitFor(() => expect((global.fetch as jest.Mock).mock.calls.length).toBeGreaterThan(calls));
+  });
+
+  it("should refetch on window focus", async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(okResponse({ version: 1 }))
+      .mockResolvedValueOnce(okResponse({ version: 2 }));
+
+    const { result, waitFor } = renderHook(() => useFetch("/stats", { debounceTime: 0, refetchOnWindowFocus: true }));
+    await waitFor(() => expect(result.current.data).toEqual({ version: 1 }));
+
+    act(() => {
+      window.dispatchEvent(new Event("focus"));
+    });
+    await waitFor(() => expect(result.current.data).toEqual({ version: 2 }));
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should refetch useGraphQL when the browser comes back online", async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(okResponse({ data: { hello: "offline" } }))
+      .mockResolvedValueOnce(okResponse({ data: { hello: "online" } }));
+
+    const { result, waitFor } = renderHook(() =>
+      useGraphQL("/graphql", "{ hello }", { debounceTime: 0, refetchOnReconnect: true })
+    );
+    await waitFor(() => expect(result.current.data).toEqual({ hello: "offline" }));
+
+    act(() => {
+      window.dispatchEvent(new Event("online"));
+    });
+    await waitFor(() => expect(result.current.data).toEqual({ hello: "online" }));
+    expect(result.current.loading).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Automatic refetch triggers shared by `useFetch` and `useGraphQL`.
+ *
+ * - `refetchInterval` polls every `n` milliseconds. Polling pauses while the page
+ *   is hidden (Page Visibility API) or the browser is offline, unless
+ *   `refetchIntervalInBackground` is set.
+ * - `refetchOnWindowFocus` refetches when the window regains focus or the page
+ *   becomes visible again.
+ * - `refetchOnReconnect` refetches when the browser comes back `online`.
+ *
+ * Triggers only call back into the hook: the hook's own debounce, cache and
+ * abort handling decide what actually goes over the wire.
+ */
+import { useEffect, useRef } from 'react';
+
+type RefetchTrigger = 'interval' | 'focus' | 'reconnect';
+
+interface RefetchOptions {
+  refetchInterval: number | false;
+  refetchIntervalInBackground: boolean;
+  refetchOnWindowFocus: boolean;
+  refetchOnReconnect: boolean;
+}
+
+type RefetchOption = keyof RefetchOptions;
+
+const isBrowser = () => typeof window !== 'undefined' && typeof document !== 'undefined';
+
+const isDocumentVisible = () => !isBrowser() || document.visibilityState !== 'hidden';
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+const useRefetchTriggers = (
+  enabled: boolean,
+  { refetchInterval, refetchIntervalInBackground, refetchOnWindowFocus, refetchOnReconnect }: RefetchOptions,
+  onTrigger: (trigger: RefetchTrigger) => void
+) => {
+  const onTriggerRef = useRef(onTrigger);
+  onTriggerRef.current = onTrigger;
+
+  useEffect(() => {
+    if (!enabled || !refetchInterval || refetchInterval <= 0 || !isBrowser()) {
+      return;
+    }
+
+    let timer: ReturnType<typeof setInterval> | null = null;
+    const update = () => {
+      const active = refetchIntervalInBackground || (isDocumentVisible() && isOnline());
+      if (active && !timer) {
+        timer = setInterval(() => onTriggerRef.current('interval'), refetchInterval);
+      } else if (!active && timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    };
+
+    update();
+    document.addEventListener('visibilitychange', update);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      if (timer) {
+        clearInterval(timer);
+      }
+      document.removeEventListener('visibilitychange', update);
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, [enabled, refetchInterval, refetchIntervalInBackground]);
+
+  useEffect(() => {
+    if (!enabled || !refetchOnWindowFocus || !isBrowser()) {
+      return;
+    }
+
+    // `focus` and `visibilitychange` usually fire together; the hook's debounce merges them
+    const onFocus = () => {
+      if (isDocumentVisible() && isOnline()) {
+        onTriggerRef.current('focus');
+      }
+    };
+    window.addEventListener('focus', onFocus);
+    document.addEventListener('visibilitychange', onFocus);
+    return () => {
+      window.removeEventListener('focus', onFocus);
+      document.removeEventListener('visibilitychange', onFocus);
+    };
+  }, [enabled, refetchOnWindowFocus]);
+
+  useEffect(() => {
+    if (!enabled || !refetchOnReconnect || !isBrowser()) {
+      return;
+    }
+
+    const onOnline = () => onTriggerRef.current('reconnect');
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, [enabled, refetchOnReconnect]);
+};
+
+export type { RefetchOption, RefetchOptions, RefetchTrigger };
+
+export {
+  useRefetchTriggers,
+};
@@ -0,0 +1,128 @@
+/**
+ * The request loop shared by `useFetch` and `useGraphQL`: it runs `fetch` with a
+ * per-attempt timeout, retries failed attempts according to the retry policy and
+ * stops as soon as the outer `signal` is aborted.
+ *
+ * The response is handed to `handleResponse`, which turns it into data or throws
+ * to mark the attempt as failed. Whatever is thrown reaches the caller as a
+ * `NetworkError`: a timeout, an abort and a failing `fetch` are told apart here.
+ * Progress is reported through `emit`: an `attempt` event as each attempt starts, a
+ * `timeout` event when one times out, a `retry` event before each retry, or the
+ * `progress` events the transport and `handleResponse` emit while the body is sent and read.
+ */
+import { AbortError, NetworkError, NetworkFailureError, TimeoutError, toNetworkError } from './errors';
+import { shouldRetry, getRetryDelay, RetryOptions } from './retry';
+import type { Progress } from './progress';
+import type { QueueStatus } from './offlineQueue';
+
+interface RequestOptions extends RetryOptions {
+  timeout: number;
+}
+
+type RequestEvent =
+  | { type: 'attempt'; attempt: number }
+  | { type: 'timeout'; attempt: number; timeout: number }
+  | { type: 'retry'; attempt: number; error: NetworkError; delay: number }
+  | { type: 'progress'; progress: Progress }
+  | { type: 'queue'; status?: QueueStatus };
+
+type RequestEmitter = (event: RequestEvent) => void;
+
+/** The state of a hook's latest request. `cancelled` requests were aborted on purpose, not failed. */
+type RequestStatus = 'idle' | 'loading' | 'success' | 'error' | 'cancelled';
+
+/**
+ * Calls `onAbort` once `signal` (e.g. the `signal` option of a hook) aborts, right away
+ * if it already has. Returns the function that stops listening.
+ */
+const onSignalAbort = (signal: AbortSignal | null | undefined, onAbort: () => void): (() => void) => {
+  if (!signal) return () => undefined;
+  if (signal.aborted) {
+    onAbort();
+    return () => undefined;
+  }
+  signal.addEventListener('abort', onAbort);
+  return () => signal.removeEventListener('abort', onAbort);
+};
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  // `abort` doesn't fire again for a signal aborted already
+  if (signal.aborted) {
+    reject(new AbortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timeoutId);
+    reject(new AbortError());
+  };
+  const timeoutId = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal.addEventListener('abort', onAbort);
+});
+
+const fetchWithRetry = async <T>(
+  fetchImpl: typeof fetch,
+  url: string,
+  init: RequestInit,
+  options: RequestOptions,
+  signal: AbortSignal,
+  handleResponse: (response: Response) => Promise<T>,
+  emit: RequestEmitter = () => undefined
+): Promise<T> => {
+  const { timeout } = options;
+  let attempt = 0;
+  while (true) {
+    if (signal.aborted) {
+      throw new AbortError();
+    }
+    attempt++;
+    emit({ type: 'attempt', attempt });
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal.addEventListener('abort', onAbort);
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+
+    let error: NetworkError;
+    try {
+      let response: Response;
+      try {
+        response = await fetchImpl(url, { ...init, signal: controller.signal });
+      } catch (err) {
+        if (timedOut) throw new TimeoutError(timeout);
+        if (signal.aborted) throw new AbortError();
+        throw new NetworkFailureError(err);
+      }
+      return await handleResponse(response);
+    } catch (err) {
+      error = signal.aborted ? new AbortError() : timedOut ? new TimeoutError(timeout) : toNetworkError(err);
+    } finally {
+      clearTimeout(timeoutId);
+      signal.removeEventListener('abort', onAbort);
+    }
+
+    if (error instanceof TimeoutError) {
+      emit({ type: 'timeout', attempt, timeout });
+    }
+    if (!shouldRetry(options, attempt, error)) {
+      throw error;
+    }
+    const delay = getRetryDelay(options, attempt, error);
+    emit({ type: 'retry', attempt, error, delay });
+    await wait(delay, signal);
+  }
+};
+
+export type { RequestOptions, RequestEvent, RequestEmitter, RequestStatus };
+
+export {
+  fetchWithRetry,
+  wait,
+  onSignalAbort,
+};
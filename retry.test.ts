@@ -0,0 +1,72 @@
+import { shouldRetry, getRetryDelay, getRetryAfter, RetryOptions } from "./retry";
+import { wait } from "./request";
+import { AbortError, HttpError, NetworkError, NetworkFailureError, TimeoutError } from "./errors";
+
+describe("retry policy", () => {
+  const options: RetryOptions = {
+    retry: 3,
+    retryDelay: 1000,
+    maxRetryDelay: 5000,
+    retryBackoff: 2,
+    retryJitter: false,
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should only retry transient errors", () => {
+    expect(shouldRetry(options, 1, new NetworkFailureError())).toBe(true);
+    expect(shouldRetry(options, 1, new TimeoutError(5000))).toBe(true);
+    expect(shouldRetry(options, 1, new HttpError(503, "Service Unavailable"))).toBe(true);
+    expect(shouldRetry(options, 1, new HttpError(429, "Too Many Requests"))).toBe(true);
+    expect(shouldRetry(options, 1, new HttpError(400, "Bad Request"))).toBe(false);
+    expect(shouldRetry(options, 1, new HttpError(404, "Not Found"))).toBe(false);
+    expect(shouldRetry(options, 1, new AbortError())).toBe(false);
+  });
+
+  it("should stop after the configured number of retries", () => {
+    expect(shouldRetry(options, 3, new NetworkFailureError())).toBe(true);
+    expect(shouldRetry(options, 4, new NetworkFailureError())).toBe(false);
+  });
+
+  it("should defer to a retry predicate, but never retry aborts", () => {
+    const retry = jest.fn((attempt: number, error: NetworkError) => error instanceof HttpError && attempt < 2);
+    const policy = { ...options, retry };
+    expect(shouldRetry(policy, 1, new HttpError(404, "Not Found"))).toBe(true);
+    expect(shouldRetry(policy, 2, new HttpError(404, "Not Found"))).toBe(false);
+    expect(shouldRetry(policy, 1, new AbortError())).toBe(false);
+    expect(retry).toHaveBeenCalledTimes(2);
+  });
+
+  it("should back off exponentially up to the maximum delay", () => {
+    const error = new NetworkFailureError();
+    expect(getRetryDelay(options, 1, error)).toBe(1000);
+    expect(getRetryDelay(options, 2, error)).toBe(2000);
+    expect(getRetryDelay(options, 3, error)).toBe(4000);
+    expect(getRetryDelay(options, 4, error)).toBe(5000);
+  });
+
+  it("should randomize delays with jitter", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+    expect(getRetryDelay({ ...options, retryJitter: true }, 2, new NetworkFailureError())).toBe(1500);
+  });
+
+  it("should honor Retry-After on 429 and 503 responses", () => {
+    const tooManyRequests = new HttpError(429, "Too Many Requests", { "Retry-After": "2" });
+    expect(getRetryAfter(tooManyRequests)).toBe(2000);
+    expect(getRetryDelay(options, 1, tooManyRequests)).toBe(2000);
+
+    jest.spyOn(Date, "now").mockReturnValue(Date.parse("Wed, 21 Oct 2026 07:28:00 GMT"));
+    const unavailable = new HttpError(503, "Service Unavailable", { "retry-after": "Wed, 21 Oct 2026 07:28:03 GMT" });
+    expect(getRetryAfter(unavailable)).toBe(3000);
+
+    expect(getRetryAfter(new HttpError(500, "Internal Server Error", { "retry-after": "2" }))).toBeUndefined();
+  });
+
+  it("should not wait for retries once the signal is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(wait(60000, controller.signal)).rejects.toBeInstanceOf(AbortError);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Retry policy used by the request loop.
+ *
+ * `retry` is either the maximum number of retries or a `(attempt, error) => boolean`
+ * predicate. With a number, only errors that may go away on their own are retried:
+ * timeouts, network failures and `408`, `429` and `5xx` responses. Aborted requests
+ * are never retried.
+ *
+ * The delay before retry `n` grows exponentially – `retryDelay * retryBackoff^(n - 1)`,
+ * capped at `maxRetryDelay` – and is randomized by up to half when `retryJitter` is on,
+ * so clients that failed together don't retry together. A `Retry-After` header on
+ * `429`/`503` responses takes precedence over the computed delay.
+ */
+import { AbortError, HttpError, NetworkError, NetworkFailureError, TimeoutError } from './errors';
+
+type RetryPredicate = (attempt: number, error: NetworkError) => boolean;
+
+interface RetryOptions {
+  retry: number | RetryPredicate;
+  retryDelay: number;
+  maxRetryDelay: number;
+  retryBackoff: number;
+  retryJitter: boolean;
+}
+
+const RETRY_AFTER_STATUS = [429, 503];
+
+const isRetryableError = (error: NetworkError) => {
+  if (error instanceof TimeoutError || error instanceof NetworkFailureError) return true;
+  if (error instanceof HttpError) return error.status >= 500 || error.status === 408 || error.status === 429;
+  return false;
+};
+
+/** `attempt` is the number of attempts made so far, starting at 1. */
+const shouldRetry = ({ retry }: RetryOptions, attempt: number, error: NetworkError) => {
+  if (error instanceof AbortError) return false;
+  if (typeof retry === 'function') return retry(attempt, error);
+  return attempt <= retry && isRetryableError(error);
+};
+
+/** Reads `Retry-After` (seconds or an HTTP date) from 429/503 responses, in milliseconds. */
+const getRetryAfter = (error: NetworkError): number | undefined => {
+  if (!(error instanceof HttpError) || !RETRY_AFTER_STATUS.includes(error.status)) return undefined;
+  const name = Object.keys(error.headers).find(header => header.toLowerCase() === 'retry-after');
+  if (!name) return undefined;
+  const value = error.headers[name].trim();
+  if (/^\d+$/.test(value)) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const getRetryDelay = (
+  { retryDelay, maxRetryDelay, retryBackoff, retryJitter }: RetryOptions,
+  attempt: number,
+  error: NetworkError
+) => {
+  const retryAfter = getRetryAfter(error);
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, maxRetryDelay);
+  }
+  const delay = Math.min(retryDelay * Math.pow(retryBackoff, attempt - 1), maxRetryDelay);
+  return retryJitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+};
+
+export type { RetryOptions, RetryPredicate };
+
+export {
+  shouldRetry,
+  getRetryDelay,
+  getRetryAfter,
+};
@@ -9,7 +9,7 @@ import type { RollupOptions, InputPluginOption } from "rollup";
 
 const config: RollupOptions[] = [
     {
-        input: ["./index.ts", "./useFetch.ts", "./useGraphQL.ts"],
+        input: ["./index.ts", "./useFetch.ts", "./useGraphQL.ts", "./useGraphQLSubscription.ts", "./useMutation.ts", "./useInfiniteFetch.ts", "./NetworkProvider.ts", "./cache.ts", "./dedupe.ts", "./request.ts", "./parse.ts", "./errors.ts", "./retry.ts", "./interceptors.ts", "./refetch.ts", "./validate.ts", "./graphqlWs.ts", "./normalizedCache.ts", "./graphqlTransport.ts", "./suspense.ts", "./ssr.ts", "./progress.ts", "./offlineQueue.ts", "./url.ts", "./openapi.ts", "./testing.ts", "./events.ts", "./NetworkDevtools.ts", "./stream.ts", "./useStream.ts", "./useEventSource.ts", "./client.ts"],
         output: [
             {
                 dir: "dist/cjs",
@@ -37,7 +37,7 @@ const config: RollupOptions[] = [
         external: ["react"],
     },
     {
-        input: ["./index.ts", "./useFetch.ts", "./useGraphQL.ts"],
+        input: ["./index.ts", "./useFetch.ts", "./useGraphQL.ts", "./useGraphQLSubscription.ts", "./useMutation.ts", "./useInfiniteFetch.ts", "./NetworkProvider.ts", "./cache.ts", "./dedupe.ts", "./request.ts", "./parse.ts", "./errors.ts", "./retry.ts", "./interceptors.ts", "./refetch.ts", "./validate.ts", "./graphqlWs.ts", "./normalizedCache.ts", "./graphqlTransport.ts", "./suspense.ts", "./ssr.ts", "./progress.ts", "./offlineQueue.ts", "./url.ts", "./openapi.ts", "./testing.ts", "./events.ts", "./NetworkDevtools.ts", "./stream.ts", "./useStream.ts", "./useEventSource.ts", "./client.ts"],
         output: {
             dir: "dist/types",
             format: "es",
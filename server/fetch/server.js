@@ -82,6 +82,42 @@ app.get('/api/heavy', (req, res) => {
   res.json({ size: data.length });
 });
 
+// Streaming endpoints, for `useStream` and `useEventSource`
+
+// Sends the users as newline-delimited JSON, one line every `interval` ms
+app.get('/api/stream/users', (req, res) => {
+  const interval = Number(req.query.interval) || 200;
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  let index = 0;
+  const timer = setInterval(() => {
+    if (index >= users.length) {
+      clearInterval(timer);
+      return res.end();
+    }
+    res.write(`${JSON.stringify(users[index++])}\n`);
+    // `compression` buffers the body until it is flushed
+    res.flush?.();
+  }, interval);
+  req.on('close', () => clearInterval(timer));
+});
+
+// Sends a `tick` event every second, resuming after the `Last-Event-ID` the client sends
+app.get('/api/events', (req, res) => {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  let id = Number(req.get('Last-Event-ID')) || 0;
+  res.write('retry: 1000\n\n');
+  const timer = setInterval(() => {
+    id++;
+    res.write(`id: ${id}\nevent: tick\ndata: ${JSON.stringify({ id, time: new Date().toISOString() })}\n\n`);
+    res.flush?.();
+  }, 1000);
+  req.on('close', () => clearInterval(timer));
+});
+
 app.listen(port, () => {
   console.log(`🚀 REST API server running at http://localhost:${port}`);
 });
@@ -1,6 +1,10 @@
+const { createServer } = require('http');
 const express = require('express');
 const { ApolloServer } = require('apollo-server-express');
 const { gql } = require('graphql-tag');
+const { makeExecutableSchema } = require('@graphql-tools/schema');
+const { WebSocketServer } = require('ws');
+const { useServer } = require('graphql-ws/lib/use/ws');
 
 const PORT = process.env.PORT || 4002;
 
@@ -12,6 +16,10 @@ const typeDefs = gql`
     add(x: Int!, y: Int!): Int
     slowOp(seconds: Int!): String
   }
+
+  type Subscription {
+    countdown(from: Int!, interval: Int = 1000): Int!
+  }
 `;
 
 // Resolvers
@@ -24,19 +32,38 @@ const resolvers = {
       await new Promise(resolve => setTimeout(resolve, seconds * 1000));
       return `Slept for ${seconds} seconds`;
     }
+  },
+  Subscription: {
+    countdown: {
+      subscribe: async function* (_, { from, interval }) {
+        for (let i = from; i >= 0; i--) {
+          yield { countdown: i };
+          if (i > 0) {
+            await new Promise(resolve => setTimeout(resolve, interval));
+          }
+        }
+      }
+    }
   }
 };
 
 // Create Apollo Server
 async function startServer() {
   const app = express();
-  const server = new ApolloServer({ typeDefs, resolvers });
+  const httpServer = createServer(app);
+  const schema = makeExecutableSchema({ typeDefs, resolvers });
+  const server = new ApolloServer({ schema });
 
   await server.start();
   server.applyMiddleware({ app });
 
-  app.listen(PORT, () => {
+  // subscriptions over the graphql-ws protocol, on the same path as queries
+  const wsServer = new WebSocketServer({ server: httpServer, path: server.graphqlPath });
+  useServer({ schema }, wsServer);
+
+  httpServer.listen(PORT, () => {
     console.log(`🚀 Benchmark GraphQL Server ready at http://localhost:${PORT}${server.graphqlPath}`);
+    console.log(`🔌 Subscriptions ready at ws://localhost:${PORT}${server.graphqlPath}`);
   });
 }
 
@@ -0,0 +1,29 @@
+/**
+ * @jest-environment node
+ */
+import { createElement } from "react";
+import { renderHook } from "@testing-library/react-hooks/server";
+import { NetworkProvider, useNetworkConfig } from "./NetworkProvider";
+import { useFetch } from "./useFetch";
+
+describe("rendering on the server", () => {
+  const wrapper = ({ children }: { children: any }) => createElement(NetworkProvider, null, children);
+
+  it("should give every provider a cache of its own", () => {
+    const first = renderHook(() => useNetworkConfig().cache, { wrapper });
+    const second = renderHook(() => useNetworkConfig().cache, { wrapper });
+
+    expect(first.result.current).toBeDefined();
+    expect(second.result.current).not.toBe(first.result.current);
+  });
+
+  it("should refuse to suspend without a cache instead of fetching forever", () => {
+    const fetchSpy = jest.spyOn(global, "fetch").mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(() => useFetch("https://api.example.com/users", { suspense: true }));
+
+    expect(result.error?.message).toMatch("Suspense on the server needs a cache");
+    expect(fetchSpy).not.toHaveBeenCalled();
+    fetchSpy.mockRestore();
+  });
+});
@@ -0,0 +1,87 @@
+import { createElement } from "react";
+import { renderHook } from "@testing-library/react-hooks";
+import { useFetch } from "./useFetch";
+import { useGraphQL } from "./useGraphQL";
+import { NetworkProvider } from "./NetworkProvider";
+import { createQueryCache, createFetchCacheKey, QueryCache } from "./cache";
+import { prefetchFetch, prefetchGraphQL, dehydrate, hydrate } from "./ssr";
+
+describe("server-side rendering", () => {
+  const okResponse = (body: unknown) => ({
+    ok: true,
+    status: 200,
+    json: async () => body,
+  } as Response);
+
+  const providerFor = (cache: QueryCache) => ({ children }: { children: any }) =>
+    createElement(NetworkProvider, { cache, baseUrl: "https://api.example.com", fetchConfig: { debounceTime: 0 }, graphQLConfig: { debounceTime: 0 } }, children);
+
+  it("should prefetch into a request-scoped cache under the keys the hooks read", async () => {
+    const serverFetch = jest.fn()
+      .mockResolvedValueOnce(okResponse([{ id: 1 }]))
+      .mockResolvedValueOnce(okResponse({ data: { viewer: "Ada" } }))
+      .mockResolvedValueOnce({ ok: false, status: 500, statusText: "Server Error", text: async () => "" } as Response);
+    const network = { cache: createQueryCache(), baseUrl: "https://api.example.com", fetch: serverFetch };
+
+    await Promise.all([
+      prefetchFetch(network, "/users"),
+      prefetchGraphQL(network, "/graphql", "{ viewer }"),
+      prefetchFetch(network, "/broken", { retry: 0 }),
+    ]);
+
+    expect(network.cache.getQueryData(createFetchCacheKey("https://api.example.com/users"))).toEqual([{ id: 1 }]);
+    expect(network.cache.has(createFetchCacheKey("https://api.example.com/broken"))).toBe(false);
+    expect(dehydrate(network.cache).entries).toHaveLength(2);
+  });
+
+  it("should render hydrated data on mount without sending a request", async () => {
+    const serverCache = createQueryCache();
+    const serverFetch = jest.fn()
+      .mockResolvedValueOnce(okResponse([{ id: 1 }]))
+      .mockResolvedValueOnce(okResponse({ data: { viewer: "Ada" } }));
+    await prefetchFetch({ cache: serverCache, baseUrl: "https://api.example.com", fetch: serverFetch }, "/users");
+    await prefetchGraphQL({ cache: serverCache, baseUrl: "https://api.example.com", fetch: serverFetch }, "/graphql", "{ viewer }");
+    const state = JSON.parse(JSON.stringify(dehydrate(serverCache)));
+
+    const cache = createQueryCache();
+    hydrate(cache, state);
+    global.fetch = jest.fn().mockResolvedValue(okResponse([{ id: 2 }]));
+
+    const { result } = renderHook(() => ({
+      users: useFetch<{ id: number }[]>("/users"),
+      viewer: useGraphQL<{ viewer: string }>("/graphql", "{ viewer }"),
+    }), { wrapper: providerFor(cache) });
+
+    expect(result.current.users).toMatchObject({ data: [{ id: 1 }], loading: false });
+    expect(result.current.viewer).toMatchObject({ data: { viewer: "Ada" }, loading: false });
+    await new Promise<void>(resolve => setTimeout(resolve, 20));
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    // hydrated data only seeds the first render, later mounts fetch as usual
+    const later = renderHook(() => useFetch<{ id: number }[]>("/users"), { wrapper: providerFor(cache) });
+    expect(later.result.current.loading).toBe(true);
+    await later.waitFor(() => expect(later.result.current.data).toEqual([{ id: 2 }]));
+  });
+
+  it("should not overwrite newer entries when hydrating", () => {
+    const cache = createQueryCache();
+    const key = createFetchCacheKey("/users");
+    cache.set(key, ["fresh"]);
+
+    hydrate(cache, { entries: [{ key, data: ["from server"], updatedAt: 0 }] });
+
+    expect(cache.getQueryData(key)).toEqual(["fresh"]);
+  });
+
+  it("should keep the server's timestamps when hydrating", () => {
+    const cache = createQueryCache();
+    const key = createFetchCacheKey("/users");
+    const updatedAt = Date.now() - 60000;
+
+    hydrate(cache, { entries: [{ key, data: ["from server"], updatedAt }] });
+
+    expect(cache.get(key)?.updatedAt).toBe(updatedAt);
+    expect(cache.isStale(key, 30000)).toBe(true);
+    expect(cache.isStale(key, 120000)).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Server-side rendering: fetch on the server, render with the results and hand them
+ * to the browser, so the first render shows data instead of a loading state.
+ *
+ * - `prefetchFetch` / `prefetchGraphQL` run a request outside of components and store
+ *   the result in a cache under the same key `useFetch` / `useGraphQL` read.
+ * - `dehydrate(cache)` turns the cache into plain JSON to embed in the HTML.
+ * - `hydrate(cache, state)` seeds the browser's cache with it before the app renders.
+ *
+ * Prefetched and hydrated data is used by the first render of the matching hooks even
+ * without `useCache`, and those hooks skip their initial request. Hooks mounting after
+ * that first render fetch as usual.
+ *
+ * Create a cache per server request and pass it to both the prefetch calls and
+ * `NetworkProvider`: hooks rendered on the server without a provider cache start with
+ * an empty one, so nothing is shared between users.
+ *
+ * @example
+ * ```tsx
+ * // server
+ * const network = { cache: createQueryCache(), baseUrl: 'https://api.example.com' };
+ * await Promise.all([
+ *   prefetchFetch(network, '/api/users'),
+ *   prefetchGraphQL(network, '/graphql', VIEWER_QUERY),
+ * ]);
+ * const html = renderToString(<NetworkProvider {...network}><App /></NetworkProvider>);
+ * const state = JSON.stringify(dehydrate(network.cache)).replace(/</g, '\\u003c');
+ * res.send(`<div id="root">${html}</div><script>window.__NETWORK_STATE__ = ${state}</script>`);
+ *
+ * // browser
+ * hydrate(queryCache, window.__NETWORK_STATE__);
+ * hydrateRoot(document.getElementById('root'), <NetworkProvider baseUrl="https://api.example.com"><App /></NetworkProvider>);
+ * ```
+ */
+import type { NetworkConfig } from './NetworkProvider';
+import type { CacheKeyPredicate, QueryCache } from './cache';
+import { createClient, PreparedRequest } from './client';
+import type { UseFetchConfig } from './useFetch';
+import type { GraphQLConfig } from './useGraphQL';
+
+const DEFAULT_CACHE_TIME = Infinity;
+
+/** The `NetworkProvider` props the app renders with; `cache` is the one to fill. */
+interface PrefetchNetwork extends NetworkConfig {
+  cache: QueryCache;
+}
+
+interface DehydratedEntry {
+  key: string;
+  data: unknown;
+  updatedAt: number;
+}
+
+interface DehydratedState {
+  entries: DehydratedEntry[];
+}
+
+interface DehydrateOptions {
+  /** Which entries to include, by default every entry that was not invalidated. */
+  shouldDehydrate?: CacheKeyPredicate;
+}
+
+interface HydrateOptions {
+  /** How long (in milliseconds) hydrated entries are kept. */
+  cacheTime?: number;
+}
+
+const initialKeys = new WeakMap<QueryCache, Set<string>>();
+
+const markInitialData = (cache: QueryCache, key: string) => {
+  let keys = initialKeys.get(cache);
+  if (!keys) {
+    keys = new Set();
+    initialKeys.set(cache, keys);
+  }
+  keys.add(key);
+};
+
+/** Whether `key` was prefetched or hydrated and no hook has mounted with it yet. */
+const hasInitialData = (cache: QueryCache, key: string): boolean =>
+  !!initialKeys.get(cache)?.has(key) && cache.has(key);
+
+/** Called once a hook has mounted with the initial data of `key`, later hooks fetch as usual. */
+const consumeInitialData = (cache: QueryCache, key: string) => {
+  initialKeys.get(cache)?.delete(key);
+};
+
+const runPrefetch = async <T>(cache: QueryCache, { key, run, cacheTime }: PreparedRequest<T>) => {
+  const request = cache.dedupe(key, run);
+  try {
+    cache.set(key, await request.promise, cacheTime);
+    markInitialData(cache, key);
+  } catch {
+    // failed requests are not dehydrated, so the browser sends them again
+  } finally {
+    request.release();
+  }
+};
+
+/**
+ * Fetches `url` like `useFetch(url, config)` rendered below `network` would, and stores
+ * the result in `network.cache`. Never rejects: failed requests are left to the browser.
+ */
+const prefetchFetch = async <T>(network: PrefetchNetwork, url: string, config?: UseFetchConfig<T>): Promise<void> => {
+  await runPrefetch(network.cache, createClient(network).prepareRequest<T>(url, config));
+};
+
+/**
+ * Runs `query` like `useGraphQL(url, query, config)` rendered below `network` would, and
+ * stores the result in `network.cache`. Never rejects: failed requests are left to the browser.
+ */
+const prefetchGraphQL = async <T>(network: PrefetchNetwork, url: string, query: string, config?: GraphQLConfig<T>): Promise<void> => {
+  await runPrefetch(network.cache, createClient(network).prepareGraphQL<T>(url, query, config));
+};
+
+/** Serializes the entries of `cache` into plain JSON, to be passed to `hydrate` in the browser. */
+const dehydrate = (cache: QueryCache, options: DehydrateOptions = {}): DehydratedState => {
+  const { shouldDehydrate = (key, entry) => !entry.isInvalidated } = options;
+  const entries: DehydratedEntry[] = [];
+  cache.keys().forEach(key => {
+    const entry = cache.get(key);
+    if (entry && shouldDehydrate(key, entry)) {
+      entries.push({ key, data: entry.data, updatedAt: entry.updatedAt });
+    }
+  });
+  return { entries };
+};
+
+/**
+ * Writes dehydrated entries into `cache`, for the first render of the matching hooks.
+ * Entries the cache already holds a newer version of are skipped.
+ */
+const hydrate = (cache: QueryCache, state: DehydratedState | null | undefined, options: HydrateOptions = {}) => {
+  const { cacheTime = DEFAULT_CACHE_TIME } = options;
+  (state?.entries || []).forEach(({ key, data, updatedAt }) => {
+    const existing = cache.get(key);
+    if (existing && existing.updatedAt >= updatedAt) {
+      return;
+    }
+    // keeps the server's timestamp, so `staleTime` counts from when the data was fetched
+    cache.set(key, data, cacheTime, updatedAt);
+    markInitialData(cache, key);
+  });
+};
+
+export type { PrefetchNetwork, DehydratedEntry, DehydratedState, DehydrateOptions, HydrateOptions };
+
+export {
+  prefetchFetch,
+  prefetchGraphQL,
+  dehydrate,
+  hydrate,
+  hasInitialData,
+  consumeInitialData,
+};
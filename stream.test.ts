@@ -0,0 +1,155 @@
+import { ReadableStream } from "stream/web";
+import { TextDecoder } from "util";
+import { renderHook, act } from "@testing-library/react-hooks";
+import { createLineParser, createEventStreamParser, ServerSentEvent } from "./stream";
+import { useStream } from "./useStream";
+import { HttpError } from "./errors";
+import { createMockTransport, flushTimers } from "./testing";
+
+// jsdom has neither streams nor `Response`, just enough of both to stream a body
+class MockResponse {
+  ok = true;
+  status = 200;
+  statusText = "";
+  headers = new Map<string, string>();
+
+  constructor(public body: ReadableStream<Uint8Array>) {}
+}
+
+describe("stream parsers", () => {
+  it("should split lines across chunks", () => {
+    const lines: string[] = [];
+    const parser = createLineParser(line => lines.push(line));
+    parser.push('{"id":1}\r\n{"id"');
+    parser.push(':2}\n\n{"id":3}');
+    expect(lines).toEqual(['{"id":1}', '{"id":2}']);
+    parser.flush();
+    expect(lines).toEqual(['{"id":1}', '{"id":2}', '{"id":3}']);
+  });
+
+  it("should parse event streams as specified", () => {
+    const events: ServerSentEvent[] = [];
+    const retries: number[] = [];
+    const parse = createEventStreamParser(event => events.push(event), delay => retries.push(delay), "4");
+
+    parse(": keep-alive\n\ndata: first\r");
+    parse("\ndata:second\r\n\r\nid: 5\nevent: tick\ndata");
+    parse(": {}\nretry: 250\nretry: soon\n\nid\ndata: 6\n\n");
+
+    expect(events).toEqual([
+      { type: "message", data: "first\nsecond", lastEventId: "4" },
+      { type: "tick", data: "{}", lastEventId: "5" },
+      { type: "message", data: "6", lastEventId: "" },
+    ]);
+    expect(retries).toEqual([250]);
+  });
+});
+
+describe("useStream", () => {
+  const originalTextDecoder = global.TextDecoder;
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.TextDecoder = TextDecoder as unknown as typeof global.TextDecoder;
+  });
+
+  afterEach(() => {
+    global.TextDecoder = originalTextDecoder;
+    global.fetch = originalFetch;
+    jest.useRealTimers();
+  });
+
+  it("should append NDJSON items as chunks arrive", async () => {
+    let push: (text: string | null) => void = () => undefined;
+    const body = new ReadableStream<Uint8Array>({
+      start: controller => {
+        push = text => text === null ? controller.close() : controller.enqueue(Buffer.from(text));
+      },
+    });
+    global.fetch = jest.fn().mockResolvedValue(new MockResponse(body) as unknown as Response);
+    const onItem = jest.fn();
+
+    const { result, waitFor } = renderHook(() => useStream<{ id: number }>("/api/stream/users", { onItem }));
+    await waitFor(() => expect(result.current.status).toBe("streaming"));
+
+    act(() => push('{"id":1}\n{"id":'));
+    await waitFor(() => expect(result.current.data).toEqual([{ id: 1 }]));
+    act(() => push('2}\n{"id":3}'));
+    await waitFor(() => expect(result.current.data).toHaveLength(2));
+    act(() => push(null));
+    await waitFor(() => expect(result.current.status).toBe("done"));
+
+    expect(result.current.data).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(result.current.loading).toBe(false);
+    expect(onItem).toHaveBeenCalledTimes(3);
+  });
+
+  it("should keep the items received when the stream is aborted", async () => {
+    const body = new ReadableStream<Uint8Array>({
+      start: controller => controller.enqueue(Buffer.from("first\nsecond\n")),
+    });
+    global.fetch = jest.fn().mockResolvedValue(new MockResponse(body) as unknown as Response);
+
+    const { result, waitFor } = renderHook(() => useStream<string>("/api/logs", { parse: line => line.toUpperCase() }));
+    await waitFor(() => expect(result.current.data).toEqual(["FIRST", "SECOND"]));
+
+    act(() => result.current.abort());
+    expect(result.current.status).toBe("cancelled");
+    expect(result.current.data).toEqual(["FIRST", "SECOND"]);
+  });
+
+  it("should cancel the stream when the signal aborts", async () => {
+    const body = new ReadableStream<Uint8Array>({
+      start: controller => controller.enqueue(Buffer.from("first\n")),
+    });
+    global.fetch = jest.fn().mockResolvedValue(new MockResponse(body) as unknown as Response);
+    const controller = new AbortController();
+
+    const { result, waitFor } = renderHook(() => useStream<string>("/api/logs", { format: "text", signal: controller.signal }));
+    await waitFor(() => expect(result.current.data).toEqual(["first\n"]));
+
+    act(() => controller.abort());
+    await waitFor(() => expect(result.current.status).toBe("cancelled"));
+    expect(result.current.error).toBeUndefined();
+    expect(result.current.data).toEqual(["first\n"]);
+  });
+
+  it("should cancel the stream after an item that can't be parsed", async () => {
+    const cancel = jest.fn();
+    const body = new ReadableStream<Uint8Array>({
+      start: controller => controller.enqueue(Buffer.from('{"id":1}\nnot json\n')),
+      cancel,
+    });
+    global.fetch = jest.fn().mockResolvedValue(new MockResponse(body) as unknown as Response);
+
+    const { result, waitFor } = renderHook(() => useStream<{ id: number }>("/api/stream/users"));
+    await waitFor(() => expect(result.current.status).toBe("error"));
+
+    expect(result.current.error).toBeDefined();
+    expect(result.current.data).toEqual([{ id: 1 }]);
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it("should retry failed connections and report HTTP errors", async () => {
+    jest.useFakeTimers();
+    const mock = createMockTransport().get("/api/stream/users", [
+      { status: 503 },
+      { status: 200, body: '{"id":1}\n{"id":2}\n' },
+    ]);
+
+    const { result } = renderHook(() => useStream("/api/stream/users", { query: { interval: 10 }, retryDelay: 10 }), { wrapper: mock.wrapper });
+    await act(() => flushTimers());
+
+    expect(result.current.status).toBe("done");
+    expect(result.current.data).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(mock.requests()).toHaveLength(2);
+
+    mock.get("/api/stream/users", { status: 404 });
+    act(() => result.current.refetch());
+    await act(() => flushTimers());
+
+    expect(result.current.status).toBe("error");
+    expect(result.current.error).toBeInstanceOf(HttpError);
+    expect(result.current.data).toEqual([]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Incremental readers for streamed response bodies, shared by `useStream` and
+ * `useEventSource`.
+ *
+ * - `readBody` decodes the body chunk by chunk as it arrives, and stops when `signal`
+ *   is aborted. Without streams (or `TextDecoder`) the whole body is read at once.
+ * - `createLineParser` splits the text into lines, e.g. for newline-delimited JSON.
+ * - `createEventStreamParser` parses `text/event-stream` as specified by the HTML
+ *   standard: `data`, `event`, `id` and `retry` fields, comments and multi-line data.
+ *
+ * @see https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+ */
+import { AbortError } from './errors';
+
+interface ServerSentEvent {
+  /** The `event` field, `'message'` by default. */
+  type: string;
+  data: string;
+  /** The last `id` received so far, sent back as `Last-Event-ID` when reconnecting. */
+  lastEventId: string;
+}
+
+type TextHandler = (text: string) => void;
+
+/** Calls `onText` with every decoded chunk of the body, resolves once it is fully read. */
+const readBody = async (response: Response, signal: AbortSignal, onText: TextHandler): Promise<void> => {
+  if (!response.body || typeof response.body.getReader !== 'function' || typeof TextDecoder === 'undefined') {
+    const text = await response.text();
+    if (signal.aborted) throw new AbortError();
+    onText(text);
+    return;
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  // the attempt's own signal is released once the response arrives, cancel the read instead
+  const onAbort = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  signal.addEventListener('abort', onAbort);
+  try {
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      if (signal.aborted) break;
+      onText(decoder.decode(chunk.value, { stream: true }));
+    }
+    if (signal.aborted) throw new AbortError();
+    onText(decoder.decode());
+  } catch (error) {
+    // a handler failed, nobody reads the rest of the body
+    reader.cancel().catch(() => undefined);
+    throw error;
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+};
+
+/** Returns a `{ push, flush }` pair calling `onLine` with every complete, non-empty line. */
+const createLineParser = (onLine: (line: string) => void) => {
+  let buffer = '';
+  const emit = (line: string) => {
+    const trimmed = line.replace(/\r$/, '');
+    if (trimmed.trim()) onLine(trimmed);
+  };
+  return {
+    push: (text: string) => {
+      buffer += text;
+      const lines = buffer.split('\n');
+      buffer = lines.pop()!;
+      lines.forEach(emit);
+    },
+    /** Emits the last line when the body doesn't end with a newline. */
+    flush: () => {
+      emit(buffer);
+      buffer = '';
+    },
+  };
+};
+
+/**
+ * Returns a function parsing `text/event-stream` chunks, calling `onEvent` for every
+ * dispatched event and `onRetry` when the server sets the reconnection time.
+ * `lastEventId` resumes from a previous connection.
+ */
+const createEventStreamParser = (
+  onEvent: (event: ServerSentEvent) => void,
+  onRetry: (delay: number) => void,
+  lastEventId = ''
+) => {
+  let buffer = '';
+  let data: string[] = [];
+  let type = '';
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      if (data.length > 0) {
+        onEvent({ type: type || 'message', data: data.join('\n'), lastEventId });
+      }
+      data = [];
+      type = '';
+      return;
+    }
+    if (line.startsWith(':')) return;
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+    if (field === 'data') {
+      data.push(value);
+    } else if (field === 'event') {
+      type = value;
+    } else if (field === 'id' && !value.includes('\0')) {
+      lastEventId = value;
+    } else if (field === 'retry' && /^\d+$/.test(value)) {
+      onRetry(Number(value));
+    }
+  };
+
+  return (text: string) => {
+    buffer += text;
+    // a trailing `\r` may be the first half of a `\r\n` split across chunks
+    const end = buffer.endsWith('\r') ? buffer.length - 1 : buffer.length;
+    const lines = buffer.slice(0, end).split(/\r\n|\r|\n/);
+    buffer = lines.pop()! + buffer.slice(end);
+    lines.forEach(processLine);
+  };
+};
+
+export type { ServerSentEvent };
+
+export {
+  readBody,
+  createLineParser,
+  createEventStreamParser,
+};
@@ -0,0 +1,90 @@
+import { createElement } from "react";
+import { renderHook, act } from "@testing-library/react-hooks";
+import { useFetch, useSuspenseFetch } from "./useFetch";
+import { useSuspenseGraphQL } from "./useGraphQL";
+import { NetworkProvider } from "./NetworkProvider";
+import { createQueryCache, createFetchCacheKey } from "./cache";
+import { resetSuspense } from "./suspense";
+import { HttpError } from "./errors";
+
+describe("suspense", () => {
+  const okResponse = (body: unknown) => ({
+    ok: true,
+    status: 200,
+    json: async () => body,
+  } as Response);
+
+  const setup = () => {
+    const cache = createQueryCache();
+    const wrapper = ({ children }: { children: any }) =>
+      createElement(NetworkProvider, { cache, fetchConfig: { debounceTime: 0 }, graphQLConfig: { debounceTime: 0 } }, children);
+    return { cache, wrapper };
+  };
+
+  // suspense retries are scheduled when the act scope around the resolved promise ends
+  const settle = () => act(() => new Promise<void>(resolve => setTimeout(resolve, 10)));
+
+  beforeEach(() => {
+    global.fetch = jest.fn();
+  });
+
+  it("should suspend until the data is available", async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(okResponse({ name: "Ada" }));
+    const { cache, wrapper } = setup();
+
+    const { result } = renderHook(() => useSuspenseFetch<{ name: string }>("/user"), { wrapper });
+    expect(result.current).toBeUndefined();
+
+    await settle();
+    expect(result.current.data).toEqual({ name: "Ada" });
+    expect(result.current.loading).toBe(false);
+    expect(cache.getQueryData(createFetchCacheKey("/user"))).toEqual({ name: "Ada" });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should share one request between components and resume remounts from the cache", async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(okResponse({ data: { hello: "Hello world!" } }));
+    const { wrapper } = setup();
+
+    const first = renderHook(() => useSuspenseGraphQL<{ hello: string }>("/graphql", "{ hello }"), { wrapper });
+    const second = renderHook(() => useSuspenseGraphQL<{ hello: string }>("/graphql", "{ hello }"), { wrapper });
+    await settle();
+    expect(first.result.current.data).toEqual({ hello: "Hello world!" });
+    expect(second.result.current.data).toEqual({ hello: "Hello world!" });
+
+    first.unmount();
+    const remount = renderHook(() => useSuspenseGraphQL<{ hello: string }>("/graphql", "{ hello }"), { wrapper });
+    expect(remount.result.current.data).toEqual({ hello: "Hello world!" });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should suspend through the suspense option of useFetch", async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(okResponse(["Ada", "Alan"]));
+    const { wrapper } = setup();
+
+    const { result } = renderHook(() => useFetch<string[]>("/users", { suspense: true }), { wrapper });
+    await settle();
+    const names: string[] = result.current.data;
+    expect(names).toEqual(["Ada", "Alan"]);
+  });
+
+  it("should throw errors to the error boundary until they are reset", async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: false, status: 404, statusText: "Not Found", text: async () => "" } as Response)
+      .mockResolvedValueOnce(okResponse({ name: "Ada" }));
+    const { cache, wrapper } = setup();
+
+    const { result, rerender } = renderHook(() => useSuspenseFetch<{ name: string }>("/user", { retry: 0 }), { wrapper });
+    await settle();
+    expect(result.error).toBeInstanceOf(HttpError);
+
+    rerender();
+    expect(result.error).toBeInstanceOf(HttpError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    resetSuspense(cache);
+    rerender();
+    await settle();
+    expect(result.current.data).toEqual({ name: "Ada" });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * The shared promise layer behind `suspense: true`, `useSuspenseFetch` and `useSuspenseGraphQL`.
+ *
+ * A suspending hook throws the pending promise of its request, and React renders the
+ * component again once it settles. Because a suspended component never mounts, the
+ * request lives here (per cache, per key) rather than in the component: every render
+ * of any component asking for the same key reuses the same promise, and the result is
+ * written to the cache so the next render resumes with it instead of fetching again.
+ *
+ * A failed request keeps its error, so the component throws it to the nearest error
+ * boundary on every render until `resetSuspense` is called (e.g. from the boundary's
+ * reset handler) to let the next render try again.
+ */
+import { queryCache, QueryCache } from './cache';
+import type { NetworkConfig } from './NetworkProvider';
+import type { RequestRunner } from './dedupe';
+import { NetworkError, toNetworkError } from './errors';
+
+interface SuspenseEntry {
+  promise: Promise<void>;
+  error?: NetworkError;
+}
+
+const registries = new WeakMap<QueryCache, Map<string, SuspenseEntry>>();
+
+const getRegistry = (cache: QueryCache) => {
+  let registry = registries.get(cache);
+  if (!registry) {
+    registry = new Map();
+    registries.set(cache, registry);
+  }
+  return registry;
+};
+
+/**
+ * Suspending needs a cache that outlives the render. On the server without a provider,
+ * every render would get a new empty cache and request the data again, forever.
+ */
+const assertSuspenseCache = (network: NetworkConfig) => {
+  if (typeof window === 'undefined' && !network.cache) {
+    throw new Error('Suspense on the server needs a cache: render the hooks below a `NetworkProvider`, which creates one per request, or pass it a `cache`.');
+  }
+};
+
+/** Throws the pending promise for `key`, starting `run` if nothing is in flight, or the error it failed with. */
+const suspend = <T>(cache: QueryCache, key: string, run: RequestRunner<T>, cacheTime?: number): never => {
+  const registry = getRegistry(cache);
+  const existing = registry.get(key);
+  if (existing) {
+    throw existing.error || existing.promise;
+  }
+
+  const request = cache.dedupe(key, run);
+  const entry: SuspenseEntry = {
+    promise: request.promise.then(
+      result => {
+        // the shared request may have been started by a hook that does not cache
+        if (!cache.has(key)) {
+          cache.set(key, result, cacheTime);
+        }
+        registry.delete(key);
+        request.release();
+      },
+      err => {
+        entry.error = toNetworkError(err);
+        request.release();
+      }
+    ),
+  };
+  registry.set(key, entry);
+  throw entry.promise;
+};
+
+/** Forgets failed suspense requests (all of them, or the one for `key`) so they are retried on the next render. */
+const resetSuspense = (cache: QueryCache = queryCache, key?: string) => {
+  const registry = getRegistry(cache);
+  registry.forEach((entry, entryKey) => {
+    if (entry.error && (key === undefined || key === entryKey)) {
+      registry.delete(entryKey);
+    }
+  });
+};
+
+export {
+  assertSuspenseCache,
+  suspend,
+  resetSuspense,
+};
@@ -0,0 +1,77 @@
+import { renderHook, act } from "@testing-library/react-hooks";
+import { useFetch } from "./useFetch";
+import { useGraphQL } from "./useGraphQL";
+import { useMutation } from "./useMutation";
+import { HttpError, NetworkFailureError } from "./errors";
+import { createMockTransport, flushTimers } from "./testing";
+
+describe("mock transport", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should answer from matching routes and record requests", async () => {
+    const mock = createMockTransport()
+      .get("/api/users/*", { status: 404 })
+      .get("/api/users/{id}", request => ({ body: { id: Number(request.params.id), page: request.query.page } }));
+
+    const { result } = renderHook(() => useFetch("/api/users/7", { query: { page: 2 }, headers: { "X-Tenant": "a" } }), { wrapper: mock.wrapper });
+    await act(() => flushTimers());
+
+    expect(result.current.data).toEqual({ id: 7, page: "2" });
+    expect(mock.requests()).toHaveLength(1);
+    expect(mock.requests({ method: "GET", url: "/api/users/:id" })[0]).toMatchObject({
+      path: "/api/users/7",
+      headers: { "X-Tenant": "a" },
+      params: { id: "7" },
+    });
+  });
+
+  it("should script failures, statuses and delays across retries", async () => {
+    const mock = createMockTransport().post("/api/orders", [
+      { error: "network" },
+      { status: 503, delay: 500 },
+      { status: 201, body: { id: 1 } },
+    ]);
+
+    const { result } = renderHook(() => useMutation<{ id: number }, { item: string }>("/api/orders", { retry: 2, retryDelay: 100 }), { wrapper: mock.wrapper });
+    act(() => {
+      result.current.mutate({ item: "book" });
+    });
+    await act(() => flushTimers());
+
+    expect(result.current).toMatchObject({ status: "success", data: { id: 1 } });
+    expect(mock.requests().map(request => request.body)).toEqual([{ item: "book" }, { item: "book" }, { item: "book" }]);
+  });
+
+  it("should match GraphQL operations by name and variables", async () => {
+    const mock = createMockTransport()
+      .graphql({ operationName: "User" }, { body: { data: { user: null } } })
+      .graphql({ operationName: "User", variables: { id: 1 } }, { body: { data: { user: { name: "Ada" } } } });
+
+    const query = "query User($id: ID!) { user(id: $id) { name } }";
+    const first = renderHook(() => useGraphQL("/graphql", query, { variables: { id: 1 } }), { wrapper: mock.wrapper });
+    const second = renderHook(() => useGraphQL("/graphql", query, { variables: { id: 2 } }), { wrapper: mock.wrapper });
+    await act(() => flushTimers());
+
+    expect(first.result.current.data).toEqual({ user: { name: "Ada" } });
+    expect(second.result.current.data).toEqual({ user: null });
+    expect(mock.requests({ operationName: "User", variables: { id: 2 } })[0].graphql).toEqual({ query, operationName: "User", variables: { id: 2 } });
+  });
+
+  it("should reject requests no route matches", async () => {
+    const mock = createMockTransport().get("/api/users", { status: 500 });
+
+    const users = renderHook(() => useFetch("/api/users", { retry: 0 }), { wrapper: mock.wrapper });
+    const teams = renderHook(() => useFetch("/api/teams", { retry: 0 }), { wrapper: mock.wrapper });
+    await act(() => flushTimers());
+
+    expect(users.result.current.error).toBeInstanceOf(HttpError);
+    expect(teams.result.current.error).toBeInstanceOf(NetworkFailureError);
+    expect(teams.result.current.error?.message).toBe("No mock route matches GET /api/teams.");
+  });
+});
@@ -0,0 +1,390 @@
+/**
+ * Test utilities for components using the hooks: an in-memory transport that answers
+ * requests from scripted routes instead of the network, without patching globals.
+ *
+ * - Routes match on method and URL pattern (`/api/users/{id}`, `/api/users/:id`, `*`
+ *   wildcards, a RegExp or a predicate) or on GraphQL operation name and variables.
+ *   The most recently added matching route answers, so tests can override defaults.
+ * - Replies script the status, headers, body, a `delay`, or a failure (`error: 'network'`
+ *   rejects like an unreachable server). An array of replies is used in order, the last
+ *   one repeating, e.g. to fail once and then succeed.
+ * - Every request is recorded with its parsed URL, headers, body and GraphQL payload.
+ * - `flushTimers()` runs debounce, retry and delay timers under Jest or Vitest fake timers.
+ *
+ * Hooks use the transport through `NetworkProvider`: render them inside `mock.wrapper`,
+ * which also gives every transport its own cache. Requests no route matches are
+ * rejected, which the hooks report as a `NetworkFailureError` naming the request.
+ *
+ * @example
+ * ```tsx
+ * const mock = createMockTransport()
+ *   .get('/api/users/{id}', request => ({ body: { id: Number(request.params.id), name: 'Ada' } }))
+ *   .post('/api/users', [{ status: 503 }, { status: 201, body: { id: 2 } }])
+ *   .graphql({ operationName: 'Viewer' }, { body: { data: { viewer: { id: 1 } } } });
+ *
+ * const { result } = renderHook(() => useFetch<User>('/api/users/1'), { wrapper: mock.wrapper });
+ * await act(() => flushTimers());
+ *
+ * expect(result.current.data).toEqual({ id: 1, name: 'Ada' });
+ * expect(mock.requests({ method: 'GET', url: '/api/users/{id}' })).toHaveLength(1);
+ * ```
+ */
+import { createElement, ReactNode } from 'react';
+import { NetworkProvider, toHeaderRecord } from './NetworkProvider';
+import { createQueryCache, QueryCache } from './cache';
+
+const DEFAULT_MAX_TIMERS = 100;
+const MICROTASK_ROUNDS = 20;
+
+type MockUrlPattern = string | RegExp | ((url: string) => boolean);
+
+interface MockRoute {
+  /** Matches any method when omitted. */
+  method?: string;
+  url?: MockUrlPattern;
+  /** The GraphQL operation name, from `operationName` or the document. */
+  operationName?: string;
+  /** Variables the GraphQL operation must have (a subset), or a predicate. */
+  variables?: Record<string, unknown> | ((variables: Record<string, unknown>) => boolean);
+  /** How many requests the route answers, unlimited by default. */
+  times?: number;
+}
+
+interface MockGraphQLPayload {
+  query?: string;
+  operationName?: string;
+  variables: Record<string, unknown>;
+}
+
+interface MockRequest {
+  method: string;
+  /** The URL as requested, including the query string. */
+  url: string;
+  path: string;
+  query: Record<string, string | string[]>;
+  /** Values of the placeholders of the matched route's URL pattern. */
+  params: Record<string, string>;
+  headers: Record<string, string>;
+  /** The body, parsed when it is JSON. */
+  body?: unknown;
+  graphql?: MockGraphQLPayload;
+}
+
+interface MockResponseInit {
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  /** Strings are sent as they are, anything else as JSON. */
+  body?: unknown;
+  /** Milliseconds to wait before answering. */
+  delay?: number;
+  /** Rejects instead of answering: `'network'` like an unreachable server, or the given error. */
+  error?: 'network' | unknown;
+}
+
+type MockReply = MockResponseInit | ((request: MockRequest) => MockResponseInit | Promise<MockResponseInit>);
+
+interface MockTransport {
+  fetch: typeof fetch;
+  /** The cache of `wrapper`, fresh for every transport. */
+  cache: QueryCache;
+  /** A `NetworkProvider` using the transport and its cache, for `renderHook` or `render`. */
+  wrapper: (props: { children?: ReactNode }) => ReturnType<typeof createElement>;
+  on: (route: MockRoute, reply: MockReply | MockReply[]) => MockTransport;
+  get: (url: MockUrlPattern, reply: MockReply | MockReply[]) => MockTransport;
+  post: (url: MockUrlPattern, reply: MockReply | MockReply[]) => MockTransport;
+  put: (url: MockUrlPattern, reply: MockReply | MockReply[]) => MockTransport;
+  patch: (url: MockUrlPattern, reply: MockReply | MockReply[]) => MockTransport;
+  delete: (url: MockUrlPattern, reply: MockReply | MockReply[]) => MockTransport;
+  graphql: (route: Omit<MockRoute, 'method'>, reply: MockReply | MockReply[]) => MockTransport;
+  /** The recorded requests, optionally only those matching `route`. */
+  requests: (route?: MockRoute) => MockRequest[];
+  /** Forgets every route and recorded request, and clears the cache. */
+  reset: () => void;
+}
+
+interface FlushTimersOptions {
+  /** The fake clock, e.g. `jest`, by default the one installed by the fake timers. */
+  clock?: {
+    advanceTimersToNextTimer: () => void;
+    getTimerCount: () => number;
+  };
+  /** Stops after running this many timers, so polling doesn't flush forever. */
+  maxTimers?: number;
+}
+
+/** The clock @sinonjs/fake-timers hangs on the `setTimeout` it installs. */
+interface FakeClock {
+  next: () => void;
+  countTimers: () => number;
+}
+
+interface RegisteredRoute extends MockRoute {
+  replies: MockReply[];
+  calls: number;
+}
+
+const createAbortError = () =>
+  typeof DOMException !== 'undefined'
+    ? new DOMException('The operation was aborted.', 'AbortError')
+    : Object.assign(new Error('The operation was aborted.'), { name: 'AbortError' });
+
+const parseJson = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const toPatternRegExp = (pattern: string, names: string[]) => {
+  const source = pattern.replace(/\{([^}]+)\}|:([A-Za-z_][A-Za-z0-9_]*)|\*|[.+?^$()[\]\\|]/g, (token, braced?: string, prefixed?: string) => {
+    if (braced || prefixed) {
+      names.push((braced || prefixed)!);
+      return '([^/]+)';
+    }
+    return token === '*' ? '.*' : `\\${token}`;
+  });
+  return new RegExp(`^${source}/?$`);
+};
+
+/** Matches `url` against `pattern`, returning the placeholder values, or `undefined`. */
+const matchUrl = (pattern: MockUrlPattern | undefined, url: URL, requested: string): Record<string, string> | undefined => {
+  if (pattern === undefined) return {};
+  if (typeof pattern === 'function') return pattern(requested) ? {} : undefined;
+  if (pattern instanceof RegExp) return pattern.test(requested) ? {} : undefined;
+  const names: string[] = [];
+  // relative patterns match any origin, like the hooks' URLs below a `baseUrl`
+  const target = /^[a-z]+:\/\//i.test(pattern) ? `${url.origin}${url.pathname}` : url.pathname;
+  const match = toPatternRegExp(pattern.split('?')[0], names).exec(target);
+  if (!match) return undefined;
+  const params: Record<string, string> = {};
+  names.forEach((name, index) => {
+    params[name] = decodeURIComponent(match[index + 1]);
+  });
+  return params;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isSubset = (expected: unknown, actual: unknown): boolean => {
+  if (!isRecord(expected) || !isRecord(actual)) {
+    return JSON.stringify(expected) === JSON.stringify(actual);
+  }
+  return Object.keys(expected).every(key => isSubset(expected[key], actual[key]));
+};
+
+const matchRoute = (route: MockRoute, request: MockRequest, url: URL): Record<string, string> | undefined => {
+  if (route.method && route.method.toUpperCase() !== request.method) return undefined;
+  if (route.operationName !== undefined && route.operationName !== request.graphql?.operationName) return undefined;
+  if (route.variables !== undefined) {
+    const variables = request.graphql?.variables;
+    if (!variables) return undefined;
+    const matches = typeof route.variables === 'function' ? route.variables(variables) : isSubset(route.variables, variables);
+    if (!matches) return undefined;
+  }
+  return matchUrl(route.url, url, request.url);
+};
+
+const readGraphQL = (url: URL, body: unknown): MockGraphQLPayload | undefined => {
+  const source: Record<string, unknown> | undefined = body && typeof body === 'object'
+    ? body as Record<string, unknown>
+    : url.searchParams.has('query') || url.searchParams.has('extensions')
+      ? { query: url.searchParams.get('query') || undefined, operationName: url.searchParams.get('operationName') || undefined, variables: parseJson(url.searchParams.get('variables') || '{}') }
+      : undefined;
+  if (!source || (typeof source.query !== 'string' && typeof source.operationName !== 'string')) {
+    return undefined;
+  }
+  const query = source.query as string | undefined;
+  const declared = query ? /\b(?:query|mutation|subscription)\s+([_A-Za-z][_0-9A-Za-z]*)/.exec(query) : null;
+  return {
+    query,
+    operationName: (source.operationName as string | undefined) || (declared ? declared[1] : undefined),
+    variables: (source.variables as Record<string, unknown>) || {},
+  };
+};
+
+const toMockRequest = (input: RequestInfo | URL, init: RequestInit = {}): { request: MockRequest; url: URL } => {
+  const requested = typeof input === 'string' ? input : input instanceof URL ? input.href : (input as Request).url;
+  const url = new URL(requested, 'http://localhost');
+  const query: Record<string, string | string[]> = {};
+  url.searchParams.forEach((value, key) => {
+    const existing = query[key];
+    query[key] = existing === undefined ? value : ([] as string[]).concat(existing, value);
+  });
+  const body = typeof init.body === 'string' ? parseJson(init.body) : init.body ?? undefined;
+  return {
+    url,
+    request: {
+      method: (init.method || 'GET').toUpperCase(),
+      url: requested,
+      path: url.pathname,
+      query,
+      params: {},
+      headers: toHeaderRecord(init.headers || {}),
+      body,
+      graphql: readGraphQL(url, body),
+    },
+  };
+};
+
+const createHeaders = (record: Record<string, string>): Headers => {
+  if (typeof Headers !== 'undefined') {
+    return new Headers(record);
+  }
+  // enough of `Headers` for the hooks where it doesn't exist, e.g. under jsdom
+  const entries = Object.keys(record).map(key => [key.toLowerCase(), record[key]]);
+  return {
+    get: (name: string) => entries.filter(([key]) => key === name.toLowerCase()).map(([, value]) => value)[0] ?? null,
+    has: (name: string) => entries.some(([key]) => key === name.toLowerCase()),
+    forEach: (callback: (value: string, key: string) => void) => entries.forEach(([key, value]) => callback(value, key)),
+  } as Headers;
+};
+
+const createResponse = (url: string, init: MockResponseInit): Response => {
+  const { status = 200, statusText = '', body } = init;
+  const json = body !== undefined && typeof body !== 'string';
+  const text = body === undefined ? '' : json ? JSON.stringify(body) : body as string;
+  const headers = { ...(json ? { 'Content-Type': 'application/json' } : {}), ...init.headers };
+  if (typeof Response !== 'undefined') {
+    return new Response([204, 205, 304].includes(status) ? null : text, { status, statusText, headers });
+  }
+  const response = {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText,
+    url,
+    headers: createHeaders(headers),
+    redirected: false,
+    body: null,
+    bodyUsed: false,
+    text: async () => text,
+    json: async () => JSON.parse(text),
+    blob: async () => new Blob([text], { type: headers['Content-Type'] }),
+    clone: () => createResponse(url, init),
+  };
+  return response as unknown as Response;
+};
+
+const wait = (ms: number, signal?: AbortSignal | null) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timeoutId);
+    reject(createAbortError());
+  };
+  const timeoutId = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort);
+});
+
+/** Creates an in-memory transport answering requests from the routes added to it. */
+const createMockTransport = (): MockTransport => {
+  let routes: RegisteredRoute[] = [];
+  let recorded: MockRequest[] = [];
+  const cache = createQueryCache();
+
+  const mockFetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const { request, url } = toMockRequest(input, init);
+    recorded.push(request);
+    if (init.signal?.aborted) {
+      throw createAbortError();
+    }
+
+    let route: RegisteredRoute | undefined;
+    for (let index = routes.length - 1; index >= 0 && !route; index--) {
+      const candidate = routes[index];
+      const params = candidate.times === undefined || candidate.calls < candidate.times ? matchRoute(candidate, request, url) : undefined;
+      if (params) {
+        request.params = params;
+        route = candidate;
+      }
+    }
+    if (!route) {
+      throw new Error(`No mock route matches ${request.method} ${request.url}.`);
+    }
+
+    const reply = route.replies[Math.min(route.calls, route.replies.length - 1)];
+    route.calls++;
+    const response = typeof reply === 'function' ? await reply(request) : reply;
+    if (response.delay) {
+      await wait(response.delay, init.signal);
+    }
+    if (response.error !== undefined) {
+      throw response.error === 'network' ? new TypeError('Failed to fetch') : response.error;
+    }
+    return createResponse(request.url, response);
+  };
+
+  const transport: MockTransport = {
+    fetch: mockFetch as typeof fetch,
+    cache,
+    wrapper: ({ children }) => createElement(NetworkProvider, { fetch: mockFetch as typeof fetch, cache }, children),
+    on: (route, reply) => {
+      routes.push({ ...route, replies: Array.isArray(reply) ? reply : [reply], calls: 0 });
+      return transport;
+    },
+    get: (url, reply) => transport.on({ method: 'GET', url }, reply),
+    post: (url, reply) => transport.on({ method: 'POST', url }, reply),
+    put: (url, reply) => transport.on({ method: 'PUT', url }, reply),
+    patch: (url, reply) => transport.on({ method: 'PATCH', url }, reply),
+    delete: (url, reply) => transport.on({ method: 'DELETE', url }, reply),
+    graphql: (route, reply) => transport.on(route, reply),
+    requests: route => {
+      if (!route) return recorded;
+      return recorded.filter(request => matchRoute(route, request, new URL(request.url, 'http://localhost')) !== undefined);
+    },
+    reset: () => {
+      routes = [];
+      recorded = [];
+      cache.clear();
+    },
+  };
+  return transport;
+};
+
+const settleMicrotasks = async () => {
+  for (let round = 0; round < MICROTASK_ROUNDS; round++) {
+    await Promise.resolve();
+  }
+};
+
+/**
+ * Runs pending timers one by one under fake timers (`jest.useFakeTimers()`,
+ * `vi.useFakeTimers()` or `@sinonjs/fake-timers`), letting promises settle in between,
+ * until none are left: debounces, retry delays, timeouts and scripted delays all elapse.
+ * Wrap it in `act`.
+ */
+const flushTimers = async (options: FlushTimersOptions = {}): Promise<void> => {
+  const { maxTimers = DEFAULT_MAX_TIMERS } = options;
+  // modern Jest and Vitest timers are installed by @sinonjs/fake-timers, which exposes its clock
+  const fakeClock = (setTimeout as typeof setTimeout & { clock?: FakeClock }).clock;
+  const clock = options.clock || (fakeClock && {
+    advanceTimersToNextTimer: () => fakeClock.next(),
+    getTimerCount: () => fakeClock.countTimers(),
+  });
+  if (!clock) {
+    throw new Error('flushTimers needs fake timers, call `jest.useFakeTimers()` or pass `clock`.');
+  }
+  await settleMicrotasks();
+  for (let ran = 0; ran < maxTimers && clock.getTimerCount() > 0; ran++) {
+    clock.advanceTimersToNextTimer();
+    await settleMicrotasks();
+  }
+};
+
+export type {
+  MockTransport,
+  MockRoute,
+  MockRequest,
+  MockReply,
+  MockResponseInit,
+  MockUrlPattern,
+  MockGraphQLPayload,
+  FlushTimersOptions,
+};
+
+export {
+  createMockTransport,
+  flushTimers,
+};
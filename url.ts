@@ -0,0 +1,61 @@
+/**
+ * Path parameter interpolation and query string serialization, applied by `useFetch`
+ * to its `params` and `query` options.
+ *
+ * - `params` fill `{name}` (OpenAPI) and `:name` (Express) placeholders, URL-encoded.
+ *   Placeholders without a value are left as they are, e.g. while the hook is disabled.
+ * - `query` is appended to the URL; arrays repeat the key (`?tag=a&tag=b`), and
+ *   `undefined`/`null` values are skipped.
+ *
+ * @example
+ * ```ts
+ * buildUrl('/api/users/{id}/posts', { id: 42 }, { tag: ['a', 'b'], page: 2 });
+ * // '/api/users/42/posts?tag=a&tag=b&page=2'
+ * ```
+ */
+
+type PathParamValue = string | number | boolean;
+
+type PathParams = Record<string, PathParamValue | undefined>;
+
+type QueryValue = string | number | boolean | null | undefined;
+
+type QueryParams = Record<string, QueryValue | QueryValue[]>;
+
+const PLACEHOLDER_PATTERN = /\{([^}]+)\}|:([A-Za-z_][A-Za-z0-9_]*)/g;
+
+const interpolatePath = (path: string, params: PathParams): string =>
+  path.replace(PLACEHOLDER_PATTERN, (placeholder, braced?: string, prefixed?: string) => {
+    const value = params[(braced || prefixed)!];
+    return value === undefined ? placeholder : encodeURIComponent(String(value));
+  });
+
+const serializeQuery = (query: QueryParams): string => {
+  const pairs: string[] = [];
+  Object.keys(query).forEach(key => {
+    const value = query[key];
+    (Array.isArray(value) ? value : [value]).forEach(item => {
+      if (item !== undefined && item !== null) {
+        pairs.push(`${encodeURIComponent(key)}=${encodeURIComponent(String(item))}`);
+      }
+    });
+  });
+  return pairs.join('&');
+};
+
+const buildUrl = (url: string, params?: PathParams, query?: QueryParams): string => {
+  const path = params ? interpolatePath(url, params) : url;
+  const search = query ? serializeQuery(query) : '';
+  if (!search) {
+    return path;
+  }
+  return `${path}${path.includes('?') ? '&' : '?'}${search}`;
+};
+
+export type { PathParams, PathParamValue, QueryParams, QueryValue };
+
+export {
+  interpolatePath,
+  serializeQuery,
+  buildUrl,
+};
@@ -0,0 +1,68 @@
+import { renderHook, act } from "@testing-library/react-hooks";
+import { useEventSource } from "./useEventSource";
+import { HttpError } from "./errors";
+import { createMockTransport, flushTimers } from "./testing";
+
+describe("useEventSource", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should receive events and resume from the last event id when the stream ends", async () => {
+    const mock = createMockTransport().get("/api/events", [
+      { body: 'retry: 10\n\nid: 1\nevent: tick\ndata: {"n":1}\n\n' },
+      { body: ": keep-alive\n\nid: 2\ndata: plain\n\n" },
+      { status: 204 },
+    ]);
+    const onMessage = jest.fn();
+
+    const { result } = renderHook(() => useEventSource("/api/events", { events: ["tick", "message"], onMessage, retryJitter: false }), { wrapper: mock.wrapper });
+    await act(() => flushTimers());
+
+    expect(onMessage.mock.calls.map(([data]) => data)).toEqual([{ n: 1 }, "plain"]);
+    expect(result.current).toMatchObject({ data: "plain", lastEventId: "2", status: "closed" });
+    const requests = mock.requests();
+    expect(requests).toHaveLength(3);
+    expect(requests[0].headers).toMatchObject({ Accept: "text/event-stream" });
+    expect(requests[0].headers["Last-Event-ID"]).toBeUndefined();
+    expect(requests[1].headers["Last-Event-ID"]).toBe("1");
+    expect(requests[2].headers["Last-Event-ID"]).toBe("2");
+  });
+
+  it("should back off between failed reconnects and give up after the last retry", async () => {
+    const times: number[] = [];
+    const mock = createMockTransport().get("/api/events", () => {
+      times.push(Date.now());
+      return { status: 503 };
+    });
+    const onError = jest.fn();
+
+    const { result } = renderHook(() => useEventSource("/api/events", { retry: 2, retryDelay: 100, retryJitter: false, onError }), { wrapper: mock.wrapper });
+    await act(() => flushTimers());
+
+    expect(result.current.status).toBe("error");
+    expect(result.current.error).toBeInstanceOf(HttpError);
+    expect(result.current.retryCount).toBe(2);
+    expect(onError).toHaveBeenCalledTimes(3);
+    expect([times[1] - times[0], times[2] - times[1]]).toEqual([100, 200]);
+  });
+
+  it("should stop reconnecting when closed", async () => {
+    const mock = createMockTransport().get("/api/events", { body: "data: 1\n\n" });
+
+    const { result } = renderHook(() => useEventSource("/api/events", { lastEventId: "41", retryDelay: 1000 }), { wrapper: mock.wrapper });
+    await act(async () => {
+      await Promise.resolve();
+    });
+    act(() => result.current.close());
+    await act(() => flushTimers());
+
+    expect(result.current.status).toBe("closed");
+    expect(mock.requests()).toHaveLength(1);
+    expect(mock.requests()[0].headers["Last-Event-ID"]).toBe("41");
+  });
+});
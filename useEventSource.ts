@@ -0,0 +1,269 @@
+/**
+ * A React hook subscribing to server-sent events (`text/event-stream`).
+ *
+ * The stream is read with `fetch` rather than the native `EventSource`, so it gets the
+ * `NetworkProvider` headers and interceptors like every other request, and custom
+ * headers (e.g. `Authorization`). Like `EventSource`, it reconnects when the connection
+ * drops or the server ends the stream, sending the last event id it received as
+ * `Last-Event-ID` so the server can resume where it left off. A `retry:` field sent by
+ * the server replaces `retryDelay`. The server stops reconnects by answering `204`.
+ *
+ * Reconnects follow the retry options of `useFetch` (`retry` defaults to `Infinity`),
+ * the count resets once a connection opens. `timeout` bounds every wait for the
+ * response headers. The source reconnects from scratch when the URL or headers change,
+ * and closes on unmount.
+ *
+ * @param {string} url - The event stream URL, resolved against the `NetworkProvider` `baseUrl`.
+ * @param {EventSourceConfig} [config] - Optional configuration for the event source.
+ * @param {string[]} [config.events=['message']] - The event types (`event:` field) to listen to.
+ * @param {function} [config.parse] - Turns the `data` of an event into `data`, by default parsed as JSON when possible.
+ * @param {function} [config.onMessage] - Called with the parsed data and the event, for every event listened to.
+ * @param {function} [config.onOpen] - Called every time a connection opens.
+ * @param {function} [config.onError] - Called with a `NetworkError` every time a connection fails.
+ * @param {string} [config.lastEventId] - The event id to resume from on the first connection.
+ * @param {boolean} [config.enabled=true] - If false, the source is not opened.
+ * @param {number} [config.timeout=5000] - The timeout (in milliseconds) of every connection attempt.
+ * @param {number|function} [config.retry=Infinity] - How many times to reconnect in a row, or an `(attempt, error) => boolean` predicate.
+ * @param {number} [config.retryDelay=1000] - The base delay (in milliseconds) before reconnecting.
+ * @param {number} [config.maxRetryDelay=30000] - The upper bound (in milliseconds) of the delay between reconnects.
+ * @param {number} [config.retryBackoff=2] - The factor the delay grows by after each failed reconnect.
+ * @param {boolean} [config.retryJitter=true] - Whether to randomize reconnect delays.
+ *
+ * @returns {EventSourceState} The latest `data` and `lastEvent`, the source `status`, `error`, `close` and `reconnect`.
+ *
+ * @example
+ * ```tsx
+ * const { data: price, status } = useEventSource<Price>('/api/prices', {
+ *   events: ['price'],
+ *   headers: { Authorization: `Bearer ${token}` },
+ * });
+ * ```
+ */
+import { useState, useEffect, useRef } from 'react';
+import { useNetworkConfig, mergeHeaders, resolveUrl } from './NetworkProvider';
+import { fetchWithRetry, wait } from './request';
+import { AbortError, NetworkError, NetworkFailureError, createHttpError, toNetworkError } from './errors';
+import { useInterceptedFetch, Interceptor } from './interceptors';
+import { shouldRetry, getRetryDelay, RetryPredicate } from './retry';
+import { buildUrl, PathParams, QueryParams } from './url';
+import { readBody, createEventStreamParser, ServerSentEvent } from './stream';
+
+const DEFAULT_RETRIES = Infinity;
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_MAX_RETRY_DELAY = 30000;
+const DEFAULT_RETRY_BACKOFF = 2;
+const DEFAULT_RETRY_JITTER = true;
+const DEFAULT_TIMEOUT = 5000;
+const DEFAULT_ENABLED = true;
+const DEFAULT_EVENTS = ['message'];
+
+type EventSourceStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed' | 'error';
+
+interface EventSourceConfig<T> extends Omit<RequestInit, 'method' | 'body' | 'signal'> {
+  events?: string[];
+  parse?: (data: string, event: ServerSentEvent) => T;
+  onMessage?: (data: T, event: ServerSentEvent) => void;
+  onOpen?: () => void;
+  onError?: (error: NetworkError) => void;
+  lastEventId?: string;
+  enabled?: boolean;
+  timeout?: number;
+  retries?: number;
+  retry?: number | RetryPredicate;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  retryBackoff?: number;
+  retryJitter?: boolean;
+  interceptors?: Interceptor[];
+  params?: PathParams;
+  query?: QueryParams;
+}
+
+interface EventSourceState<T> {
+  data?: T;
+  lastEvent?: ServerSentEvent;
+  lastEventId?: string;
+  status: EventSourceStatus;
+  error?: NetworkError;
+  /** The number of reconnects since the last connection opened. */
+  retryCount: number;
+  close: () => void;
+  reconnect: () => void;
+}
+
+/** Event data is usually JSON, but plain text is valid too. */
+const parseEventData = (data: string): unknown => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+const useEventSource = <T = unknown>(url: string, config?: EventSourceConfig<T>): EventSourceState<T> => {
+  const network = useNetworkConfig();
+  const fetchImpl = useInterceptedFetch(network, config?.interceptors);
+
+  const {
+    events = DEFAULT_EVENTS,
+    parse,
+    onMessage,
+    onOpen,
+    onError,
+    lastEventId: initialEventId,
+    enabled = DEFAULT_ENABLED,
+    timeout = DEFAULT_TIMEOUT,
+    retries = DEFAULT_RETRIES,
+    retry = retries,
+    retryDelay = DEFAULT_RETRY_DELAY,
+    maxRetryDelay = DEFAULT_MAX_RETRY_DELAY,
+    retryBackoff = DEFAULT_RETRY_BACKOFF,
+    retryJitter = DEFAULT_RETRY_JITTER,
+    interceptors,
+    params,
+    query,
+    headers,
+    ...options
+  } = config || {};
+
+  const requestUrl = resolveUrl(network.baseUrl, buildUrl(url, params, query));
+  const requestHeaders = mergeHeaders(network.headers, headers);
+  const sourceKey = JSON.stringify([requestUrl, requestHeaders, options, events]);
+
+  const [data, setData] = useState<T | undefined>(undefined);
+  const [lastEvent, setLastEvent] = useState<ServerSentEvent | undefined>(undefined);
+  const [status, setStatus] = useState<EventSourceStatus>(enabled ? 'connecting' : 'idle');
+  const [error, setError] = useState<NetworkError | undefined>(undefined);
+  const [retryCount, setRetryCount] = useState<number>(0);
+  const callbacksRef = useRef(config);
+  callbacksRef.current = config;
+  // survives reconnects, and `reconnect()`, so the server can resume
+  const lastEventIdRef = useRef<string>(initialEventId || '');
+  const controllerRef = useRef<AbortController | null>(null);
+  const openRef = useRef<() => void>(() => undefined);
+
+  openRef.current = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { signal } = controller;
+    const isCurrent = () => controllerRef.current === controller;
+    const retryOptions = { retry, retryDelay, maxRetryDelay, retryBackoff, retryJitter };
+
+    const onEvent = (event: ServerSentEvent) => {
+      if (!isCurrent()) return;
+      lastEventIdRef.current = event.lastEventId;
+      if (!events.includes(event.type)) return;
+      const { parse, onMessage } = callbacksRef.current || {};
+      // without `parse` the data is whatever the server sent, typed by the caller's `T`
+      const parsed = parse ? parse(event.data, event) : (parseEventData(event.data) as T);
+      setData(parsed);
+      setLastEvent(event);
+      onMessage?.(parsed, event);
+    };
+
+    setError(undefined);
+    setRetryCount(0);
+    setStatus('connecting');
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await fetchWithRetry(
+          fetchImpl,
+          requestUrl,
+          {
+            cache: 'no-store',
+            ...options,
+            method: 'GET',
+            headers: mergeHeaders(
+              { Accept: 'text/event-stream' },
+              requestHeaders,
+              lastEventIdRef.current ? { 'Last-Event-ID': lastEventIdRef.current } : undefined
+            ),
+          },
+          { ...retryOptions, retry: 0, timeout },
+          signal,
+          async response => {
+            if (!response.ok) {
+              throw await createHttpError(response);
+            }
+            return response;
+          }
+        );
+        if (response.status === 204) {
+          if (isCurrent()) setStatus('closed');
+          return;
+        }
+        if (!isCurrent()) return;
+        attempt = 1;
+        setError(undefined);
+        setRetryCount(0);
+        setStatus('open');
+        callbacksRef.current?.onOpen?.();
+
+        const parser = createEventStreamParser(onEvent, delay => {
+          retryOptions.retryDelay = delay;
+        }, lastEventIdRef.current);
+        await readBody(response, signal, parser);
+        // the server ended the stream, reconnect like `EventSource` does
+        throw new NetworkFailureError(new Error('The event stream was closed by the server.'));
+      } catch (err) {
+        const networkError = toNetworkError(err);
+        if (!isCurrent() || networkError instanceof AbortError) return;
+        setError(networkError);
+        callbacksRef.current?.onError?.(networkError);
+        if (!shouldRetry(retryOptions, attempt, networkError)) {
+          setStatus('error');
+          controllerRef.current = null;
+          return;
+        }
+        setStatus('reconnecting');
+        setRetryCount(attempt);
+        try {
+          await wait(getRetryDelay(retryOptions, attempt, networkError), signal);
+        } catch {
+          return;
+        }
+      }
+    }
+  };
+
+  const close = () => {
+    if (controllerRef.current) {
+      controllerRef.current.abort();
+      controllerRef.current = null;
+      setStatus('closed');
+    }
+  };
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('idle');
+      return;
+    }
+    openRef.current();
+    return () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    };
+  }, [sourceKey, enabled]);
+
+  return {
+    data,
+    lastEvent,
+    lastEventId: lastEvent?.lastEventId,
+    status,
+    error,
+    retryCount,
+    close,
+    reconnect: () => {
+      openRef.current();
+    },
+  };
+};
+
+export type { EventSourceConfig, EventSourceState, EventSourceStatus };
+
+export {
+  useEventSource,
+};
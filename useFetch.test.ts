@@ -1,4 +1,5 @@
-const { useFetch } = require("./useFetch");
+const { useFetch, useFetchDelete, useFetchHead, useFetchPut } = require("./useFetch");
+const { HttpError, TimeoutError } = require("./errors");
 const { renderHook, act } = require("@testing-library/react-hooks");
 
 global.fetch = jest.fn() as jest.MockedFunction<typeof fetch>;
@@ -44,7 +45,9 @@ describe("useFetch Hook", () => {
     await waitForNextUpdate();
 
     expect(result.current.loading).toBe(false);
-    expect(result.current.error).toBe("Error: 500 Internal Server Error");
+    expect(result.current.error).toBeInstanceOf(HttpError);
+    expect(result.current.error.status).toBe(500);
+    expect(result.current.error.message).toBe("Error: 500 Internal Server Error");
   });
 
   it("should retry on failure", async () => {
@@ -132,4 +135,252 @@ describe("useFetch Hook", () => {
 
     expect(abortSpy).toHaveBeenCalled();
   });
-});
\ No newline at end of file
+
+  it("should share one in-flight request between hooks with the same key", async () => {
+    const mockData = [{ id: 1 }];
+    let resolveFetch: (response: Response) => void = () => undefined;
+    (fetch as jest.Mock).mockReturnValueOnce(new Promise(resolve => {
+      resolveFetch = resolve;
+    }));
+
+    const first = renderHook(() =>
+      useFetch("https://api.example.com/shared", { debounceTime: 0 })
+    );
+    const second = renderHook(() =>
+      useFetch("https://api.example.com/shared", { debounceTime: 0 })
+    );
+
+    await first.waitFor(() => expect(fetch).toHaveBeenCalled());
+    await act(async () => {
+      resolveFetch({ ok: true, json: async () => mockData } as Response);
+    });
+
+    await first.waitFor(() => expect(first.result.current.data).toEqual(mockData));
+    await second.waitFor(() => expect(second.result.current.data).toEqual(mockData));
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should only abort a shared request when the last subscriber leaves", async () => {
+    (fetch as jest.Mock).mockImplementationOnce((_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+      })
+    );
+
+    const first = renderHook(() =>
+      useFetch("https://api.example.com/slow", { debounceTime: 0, retries: 0 })
+    );
+    const second = renderHook(() =>
+      useFetch("https://api.example.com/slow", { debounceTime: 0, retries: 0 })
+    );
+    await act(async () => {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    });
+    const signal: AbortSignal = (fetch as jest.Mock).mock.calls[0][1].signal;
+
+    first.unmount();
+    expect(signal.aborted).toBe(false);
+
+    act(() => second.result.current.abort());
+    expect(signal.aborted).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should refetch when the url changes", async () => {
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 1 }) } as Response)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 2 }) } as Response);
+
+    const { result, rerender, waitFor } = renderHook(
+      ({ id }: { id: number }) => useFetch(`https://api.example.com/users/${id}`, { debounceTime: 0 }),
+      { initialProps: { id: 1 } }
+    );
+    await waitFor(() => expect(result.current.data).toEqual({ id: 1 }));
+
+    rerender({ id: 2 });
+    expect(result.current.data).toBeUndefined();
+    expect(result.current.loading).toBe(true);
+
+    await waitFor(() => expect(result.current.data).toEqual({ id: 2 }));
+    expect((fetch as jest.Mock).mock.calls[1][0]).toBe("https://api.example.com/users/2");
+  });
+
+  it("should hold requests until enabled", async () => {
+    (fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: async () => ({ id: 3 }) } as Response);
+
+    const { result, rerender, waitFor } = renderHook(
+      ({ id }: { id?: number }) => useFetch(`https://api.example.com/users/${id}`, { debounceTime: 0, enabled: id !== undefined }),
+      { initialProps: {} as { id?: number } }
+    );
+    await act(async () => {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    });
+    expect(fetch).not.toHaveBeenCalled();
+    expect(result.current.loading).toBe(false);
+
+    rerender({ id: 3 });
+    await waitFor(() => expect(result.current.data).toEqual({ id: 3 }));
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should succeed on empty 204 responses", async () => {
+    const json = jest.fn();
+    (fetch as jest.Mock).mockResolvedValueOnce({ ok: true, status: 204, json } as unknown as Response);
+
+    const { result, waitFor } = renderHook(() =>
+      useFetchDelete("https://api.example.com/users/1", { debounceTime: 0 })
+    );
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.error).toBeUndefined();
+    expect(result.current.data).toBeUndefined();
+    expect(json).not.toHaveBeenCalled();
+  });
+
+  it("should succeed on empty 200 responses with Content-Length 0", async () => {
+    const json = jest.fn();
+    const headers = new Map([["content-length", "0"]]);
+    (fetch as jest.Mock).mockResolvedValueOnce({ ok: true, status: 200, headers, json } as unknown as Response);
+
+    const { result, waitFor } = renderHook(() =>
+      useFetchPut("https://api.example.com/users/1", { body: "{}", debounceTime: 0 })
+    );
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.error).toBeUndefined();
+    expect(result.current.data).toBeUndefined();
+    expect(json).not.toHaveBeenCalled();
+  });
+
+  it("should return headers from useFetchHead", async () => {
+    const headers = new Map([["content-length", "42"]]);
+    (fetch as jest.Mock).mockResolvedValueOnce({ ok: true, status: 200, headers } as unknown as Response);
+
+    const { result, waitFor } = renderHook(() =>
+      useFetchHead("https://api.example.com/users", { debounceTime: 0 })
+    );
+
+    await waitFor(() => expect(result.current.data).toEqual({ "content-length": "42" }));
+  });
+
+  it("should warn about broken conventions once per request, not per render", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    const headers = new Map([["content-length", "42"]]);
+    (fetch as jest.Mock).mockResolvedValueOnce({ ok: true, status: 200, headers } as unknown as Response);
+
+    const { result, rerender, waitFor } = renderHook(() =>
+      useFetchHead("https://api.example.com/users", { body: "{}", debounceTime: 0 })
+    );
+    rerender();
+    rerender();
+
+    await waitFor(() => expect(result.current.data).toEqual({ "content-length": "42" }));
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledWith("HEAD requests should not have a body. Ignoring body.");
+    warn.mockRestore();
+  });
+
+  it("should pick the parser from the content type in auto mode", async () => {
+    const headers = new Map([["content-type", "text/csv"]]);
+    (fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers,
+      text: async () => "id,name",
+    } as unknown as Response);
+
+    const { result, waitFor } = renderHook(() =>
+      useFetch("https://api.example.com/users.csv", { debounceTime: 0, responseType: "auto" })
+    );
+
+    await waitFor(() => expect(result.current.data).toBe("id,name"));
+  });
+
+  it("should expose the parsed body of failed responses", async () => {
+    const headers = new Map([["content-type", "application/json"]]);
+    const body = { errors: { email: "is invalid" } };
+    (fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 422,
+      statusText: "Unprocessable Entity",
+      headers,
+      json: async () => body,
+    } as unknown as Response);
+
+    const { result, waitFor } = renderHook(() =>
+      useFetch("https://api.example.com/users", { method: "POST", retries: 0, debounceTime: 0 })
+    );
+
+    await waitFor(() => expect(result.current.error).toBeDefined());
+    expect(result.current.error.status).toBe(422);
+    expect(result.current.error.body).toEqual(body);
+    expect(result.current.error.headers).toEqual({ "content-type": "application/json" });
+  });
+
+  it("should report timeouts as TimeoutError", async () => {
+    (fetch as jest.Mock).mockImplementationOnce((_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+      })
+    );
+
+    const { result, waitFor } = renderHook(() =>
+      useFetch("https://api.example.com/timeout", { timeout: 10, retries: 0, debounceTime: 0 })
+    );
+
+    await waitFor(() => expect(result.current.error).toBeInstanceOf(TimeoutError));
+    expect(`${result.current.error}`).toBe("The request timed out after 10ms.");
+    expect(result.current.status).toBe("error");
+  });
+
+  it("should cancel the request when the external signal aborts, without an error", async () => {
+    (fetch as jest.Mock).mockImplementationOnce((_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+      })
+    );
+    const controller = new AbortController();
+
+    const { result, waitFor } = renderHook(() =>
+      useFetch("https://api.example.com/cancel", { signal: controller.signal, timeout: 1000, debounceTime: 0 })
+    );
+    await waitFor(() => expect(fetch).toHaveBeenCalled());
+    const signal: AbortSignal = (fetch as jest.Mock).mock.calls[0][1].signal;
+    expect(result.current.status).toBe("loading");
+
+    act(() => controller.abort());
+
+    expect(signal.aborted).toBe(true);
+    expect(result.current).toMatchObject({ status: "cancelled", loading: false, error: undefined });
+  });
+
+  it("should ignore superseded responses and never update after unmount", async () => {
+    const resolvers: ((response: Response) => void)[] = [];
+    (fetch as jest.Mock).mockImplementation(() => new Promise(resolve => resolvers.push(resolve)));
+    const consoleError = jest.spyOn(console, "error");
+
+    const { result, rerender, unmount, waitFor } = renderHook(
+      ({ id }: { id: number }) => useFetch(`https://api.example.com/users/${id}`, { debounceTime: 0, dedupe: false }),
+      { initialProps: { id: 1 } }
+    );
+    await waitFor(() => expect(resolvers).toHaveLength(1));
+    rerender({ id: 2 });
+    await waitFor(() => expect(resolvers).toHaveLength(2));
+
+    await act(async () => {
+      resolvers[1]({ ok: true, json: async () => ({ id: 2 }) } as Response);
+      resolvers[0]({ ok: true, json: async () => ({ id: 1 }) } as Response);
+    });
+    expect(result.current).toMatchObject({ data: { id: 2 }, status: "success" });
+
+    act(() => result.current.refetch());
+    await waitFor(() => expect(resolvers).toHaveLength(3));
+    unmount();
+    await act(async () => {
+      resolvers[2]({ ok: true, json: async () => ({ id: 3 }) } as Response);
+    });
+    expect(result.current.data).toEqual({ id: 2 });
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
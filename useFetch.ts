@@ -5,23 +5,59 @@
  *
  * @template T - The type of the data expected from the fetch response.
  * 
- * @param {string} url - The URL to fetch data from.
+ * @param {string} url - The URL to fetch data from. May contain `{name}` or `:name` placeholders filled from `params`.
  * @param {UseFetchConfig} [config] - Optional configuration for the fetch request.
  * @param {number} [config.retries=3] - The number of retry attempts in case of failure.
- * @param {number} [config.retryDelay=1000] - The delay (in milliseconds) between retries.
+ * @param {number|function} [config.retry=retries] - The number of retries, or an `(attempt, error) => boolean` predicate deciding whether to retry.
+ * @param {number} [config.retryDelay=1000] - The base delay (in milliseconds) before the first retry.
+ * @param {number} [config.maxRetryDelay=30000] - The upper bound (in milliseconds) of the delay between retries.
+ * @param {number} [config.retryBackoff=2] - The factor the delay grows by after each retry.
+ * @param {boolean} [config.retryJitter=true] - Whether to randomize retry delays.
  * @param {number} [config.timeout=5000] - The timeout (in milliseconds) for the fetch request.
  * @param {number} [config.debounceTime=300] - The debounce time (in milliseconds) to delay the fetch call.
  * @param {boolean} [config.useCache=false] - Whether to use caching for the fetched data.
+ * @param {number} [config.staleTime=Infinity] - How long (in milliseconds) cached data is considered fresh. Stale data is returned immediately and refetched in the background.
+ * @param {number} [config.cacheTime=Infinity] - How long (in milliseconds) a cache entry is kept before it is dropped.
+ * @param {boolean} [config.dedupe=true] - Whether hooks rendering the same request at the same time share a single in-flight request. Only safe methods are shared when following conventions.
  * @param {string} [config.method='GET'] - The HTTP method to use for the fetch request (e.g., 'GET', 'POST').
+ * @param {FetchResponseType} [config.responseType='json'] - How to read the response body: 'json', 'text', 'blob', 'arrayBuffer', 'formData', 'stream', 'none' or 'auto' (from the Content-Type header).
+ * @param {function} [config.parse] - A custom `(response) => data` parser, used instead of `responseType`.
  * @param {RequestInit} [config] - Additional options for the fetch request (e.g., headers, method).
- * @param {boolean} [config.followConventions=true] - Whether to follow HTTP conventions for the fetch request.
+ * @param {boolean} [config.followConventions=true] - Whether to follow HTTP conventions for the fetch request. Non-idempotent methods (POST, PATCH, CONNECT) are not retried unless `retry`/`retries` is set on the hook.
  * @param {boolean} [config.runInFuture=false] - If true, the fetch will not be executed immediately.
+ * @param {boolean} [config.enabled=true] - If false, requests are held back until it turns true (e.g. until an id is available).
+ * @param {number|false} [config.refetchInterval=false] - Polls every `refetchInterval` milliseconds. Polling pauses while the page is hidden or offline.
+ * @param {boolean} [config.refetchIntervalInBackground=false] - Whether to keep polling while the page is hidden or offline.
+ * @param {boolean} [config.refetchOnWindowFocus=false] - Whether to refetch when the window regains focus.
+ * @param {boolean} [config.refetchOnReconnect=false] - Whether to refetch when the browser comes back online.
+ * @param {boolean} [config.suspense=false] - Suspends the component until data is available and throws errors to the nearest error boundary, so `data` is always defined. Implies `useCache`.
+ * @param {boolean} [config.trackProgress=false] - Whether to report upload and download progress in `progress`. Requests with a body are then sent with `XMLHttpRequest`, the only way to observe uploads.
+ * @param {function} [config.onUploadProgress] - Called with `{ loaded, total, percentage }` while the body is uploaded. Implies `trackProgress` for uploads.
+ * @param {function} [config.onDownloadProgress] - Called with `{ loaded, total, percentage }` while the response is downloaded. Implies `trackProgress` for downloads.
+ * @param {OfflineQueue} [config.offlineQueue] - Queues unsafe requests (POST, PUT, PATCH, DELETE...) made while offline, or that can't reach the server, and replays them on reconnect. See `createOfflineQueue`.
+ * @param {Schema} [config.schema] - Validates the parsed body (a function, a Zod-style schema or `jsonSchema(...)`). `data` is typed from it, and mismatches are reported as a `ValidationError` and never cached.
+ * @param {Interceptor[]} [config.interceptors] - Request/response interceptors for this hook, run after the global and provider ones.
+ * @param {PathParams} [config.params] - Values for the placeholders in `url`, URL-encoded. Placeholders without a value are left as they are.
+ * @param {QueryParams} [config.query] - Appended to `url` as a query string. Arrays repeat the key, `undefined` and `null` values are skipped.
+ * @param {AbortSignal} [config.signal] - Cancels the hook's request when aborted, like `abort()`. It applies on top of `timeout`; a request shared with other hooks keeps running for them.
  * 
- * @returns {FetchState<T>|FutureFetchState<T>} - An object containing the fetch state:
+ * The hook refetches whenever its request key (url, params, query, method and body) changes, cancelling
+ * the previous request and waiting for `debounceTime` before sending the new one.
+ * 
+ * Defaults for every option (and a base URL, shared headers and a custom `fetch`)
+ * can be provided for a subtree with `NetworkProvider`; the values passed here win.
+ * 
+ * @returns {FetchState<T>|FutureFetchState<T>|SuspenseFetchState<T>} - An object containing the fetch state:
  * - `data` (T | undefined): The fetched data, or `undefined` if not yet available.
  * - `loading` (boolean): Whether the fetch request is currently in progress.
- * - `error` (string | undefined): An error message if the fetch request failed, or `undefined` if no error occurred.
- * - `refetch` (function): A function to manually trigger a refetch of the data.
+ * - `isStale` (boolean): Whether `data` came from a stale cache entry that is being revalidated.
+ * - `attempt` (number): The attempt currently running (or last run) for the request, starting at 1.
+ * - `retryCount` (number): How many times the request has been retried.
+ * - `status` ('idle' | 'loading' | 'success' | 'error' | 'cancelled'): The state of the latest request. Aborted requests (`abort()` or `signal`) are `cancelled` without an `error`, timeouts are errors (`TimeoutError`).
+ * - `queueStatus` ('queued' | 'pending' | undefined): Whether the request waits in the offline queue, or is being replayed from it.
+ * - `progress` (Progress | undefined): The last upload or download progress of the request, when tracked.
+ * - `error` (NetworkError | undefined): The error if the fetch request failed (`HttpError`, `TimeoutError`, `AbortError`, `NetworkFailureError`), or `undefined` if no error occurred. `error.message` holds the error text.
+ * - `refetch` (function): A function to manually trigger a refetch of the data. A `signal` passed to it replaces `config.signal` for that request.
  * - `abort` (function): A function to abort the ongoing fetch request.
  * 
  * @example
@@ -37,7 +73,7 @@
  *   });
  * 
  *   if (loading) return <p>Loading...</p>;
- *   if (error) return <p>Error: {error}</p>;
+ *   if (error) return <p>Error: {error.message}</p>;
  * 
  *   return (
  *     <div>
@@ -48,41 +84,45 @@
  * };
  * ```
  */
-import { useState, useEffect, useCallback, useRef } from 'react';
-
-/*
-### Properties of request methods
-source: https://en.wikipedia.org/wiki/HTTP#Request_methods
-
-| Request method | RFC                                                      | Request has payload body  | Response has payload body  | Safe | Idempotent  | Cacheable |
-|----------------|----------------------------------------------------------|---------------------------|----------------------------|------|-------------|-----------|
-| GET            | [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110.html)  | Optional                  | Yes                        | Yes  | Yes         | Yes       |
-| HEAD           | [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110.html)  | Optional                  | No                         | Yes  | Yes         | Yes       |
-| POST           | [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110.html)  | Yes                       | Yes                        | No   | No          | Yes       |
-| PUT            | [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110.html)  | Yes                       | Yes                        | No   | Yes         | No        |
-| DELETE         | [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110.html)  | Optional                  | Yes                        | No   | Yes         | No        |
-| CONNECT        | [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110.html)  | Optional                  | Yes                        | No   | No          | No        |
-| OPTIONS        | [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110.html)  | Optional                  | Yes                        | Yes  | Yes         | No        |
-| TRACE          | [RFC 9110](https://www.rfc-editor.org/rfc/rfc9110.html)  | No                        | Yes                        | Yes  | Yes         | No        |
-| PATCH          | [RFC 5789](https://www.rfc-editor.org/rfc/rfc5789.html)  | Yes                       | Yes                        | No   | No          | No        |
-
-*/
-
-const DEFAULT_RETRIES = 3;
-const DEFAULT_RETRY_DELAY = 1000;
-const DEFAULT_TIMEOUT = 5000;
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useNetworkConfig } from './NetworkProvider';
+import { runUnshared, DedupedRequest } from './dedupe';
+import { onSignalAbort, RequestEvent, RequestStatus } from './request';
+import type { RetryPredicate } from './retry';
+import { NetworkError, AbortError, toNetworkError } from './errors';
+import { parseHeaders } from './parse';
+import type { FetchResponseType, ResponseParser } from './parse';
+import type { Interceptor } from './interceptors';
+import { useRefetchTriggers, RefetchTrigger } from './refetch';
+import type { Schema } from './validate';
+import { suspend, assertSuspenseCache } from './suspense';
+import { hasInitialData, consumeInitialData } from './ssr';
+import type { Progress, ProgressCallback } from './progress';
+import type { OfflineQueue, QueueStatus } from './offlineQueue';
+import type { PathParams, QueryParams } from './url';
+import { emitNetworkEvent, registerRefetch } from './events';
+import { createClient } from './client';
+
 const DEFAULT_DEBOUNCE_TIME = 300;
-const DEFAULT_USE_CACHE = false;
-const DEFAULT_HTTP_METHOD = 'GET';
-const DEFAULT_FOLLOW_CONVENTIONS = true;
 const DEFAULT_RUN_IN_FUTURE = false;
-
-const CACHE_ALLOWED_METHOD = ['GET', 'HEAD', 'POST'];
+const DEFAULT_ENABLED = true;
+const DEFAULT_SUSPENSE = false;
+const DEFAULT_REFETCH_INTERVAL = false;
+const DEFAULT_REFETCH_INTERVAL_IN_BACKGROUND = false;
+const DEFAULT_REFETCH_ON_WINDOW_FOCUS = false;
+const DEFAULT_REFETCH_ON_RECONNECT = false;
 
 interface FetchState<T> {
   data?: T;
   loading: boolean;
-  error?: string;
+  isFetching: boolean;
+  isStale: boolean;
+  attempt: number;
+  retryCount: number;
+  status: RequestStatus;
+  progress?: Progress;
+  queueStatus?: QueueStatus;
+  error?: NetworkError;
   refetch: (newOptions?: RequestInit) => void;
   abort: () => void;
 }
@@ -91,176 +131,332 @@ interface FutureFetchState<T> extends FetchState<T> {
   fetch: (newOptions?: RequestInit) => void;
 }
 
-interface UseFetchConfig extends RequestInit {
+interface SuspenseFetchState<T> extends Omit<FetchState<T>, 'data'> {
+  data: T;
+}
+
+interface UseFetchConfig<T = any> extends RequestInit {
   followConventions?: boolean;
   retries?: number;
+  retry?: number | RetryPredicate;
   retryDelay?: number;
+  maxRetryDelay?: number;
+  retryBackoff?: number;
+  retryJitter?: boolean;
   timeout?: number;
   debounceTime?: number;
   useCache?: boolean;
+  staleTime?: number;
+  cacheTime?: number;
+  dedupe?: boolean;
   method?: 'GET' | 'HEAD' | 'POST' | 'PUT' | 'DELETE' | 'CONNECT' | 'OPTIONS' | 'TRACE' | 'PATCH';
   runInFuture?: boolean;
+  enabled?: boolean;
+  responseType?: FetchResponseType;
+  parse?: ResponseParser<any>;
+  schema?: Schema<T>;
+  suspense?: boolean;
+  trackProgress?: boolean;
+  onUploadProgress?: ProgressCallback;
+  onDownloadProgress?: ProgressCallback;
+  offlineQueue?: OfflineQueue;
+  refetchInterval?: number | false;
+  refetchIntervalInBackground?: boolean;
+  refetchOnWindowFocus?: boolean;
+  refetchOnReconnect?: boolean;
+  interceptors?: Interceptor[];
+  params?: PathParams;
+  query?: QueryParams;
 }
 
-const cache = new Map<string, any>();
+type SuspenseFetchConfig<T> = Omit<UseFetchConfig<T>, 'suspense' | 'runInFuture' | 'enabled'>;
 
-function useFetch<T>(url: string, config: UseFetchConfig & { runInFuture: true }): FutureFetchState<T>;
-function useFetch<T>(url: string, config?: UseFetchConfig): FetchState<T>;
-function useFetch<T>(url: string, config?: UseFetchConfig): FetchState<T> | FutureFetchState<T> {
-  let {
-    followConventions = DEFAULT_FOLLOW_CONVENTIONS,
-    retries = DEFAULT_RETRIES,
-    retryDelay = DEFAULT_RETRY_DELAY,
-    timeout = DEFAULT_TIMEOUT,
+function useFetch<T>(url: string, config: SuspenseFetchConfig<T> & { suspense: true }): SuspenseFetchState<T>;
+function useFetch<T>(url: string, config: UseFetchConfig<T> & { runInFuture: true }): FutureFetchState<T>;
+function useFetch<T>(url: string, config?: UseFetchConfig<T>): FetchState<T>;
+function useFetch<T>(url: string, config?: UseFetchConfig<T>): FetchState<T> | FutureFetchState<T> | SuspenseFetchState<T> {
+  const network = useNetworkConfig();
+  const client = useMemo(() => createClient(network), [network]);
+  const cache = client.cache;
+
+  const {
     debounceTime = DEFAULT_DEBOUNCE_TIME,
-    useCache = DEFAULT_USE_CACHE,
-    method = DEFAULT_HTTP_METHOD,
     runInFuture = DEFAULT_RUN_IN_FUTURE,
-    ...options
-  } = config || {};
-
-  if (followConventions) {
-    if (method === 'HEAD' && options.body) {
-      console.warn('HEAD requests should not have a body. Ignoring body.');
-      console.warn('set followConventions to disable this feature.')
-      delete options.body;
-    }
-    if (!CACHE_ALLOWED_METHOD.includes(method) && useCache) {
-      console.warn(`Caching is not allowed for ${method} requests. Ignoring cache.`);
-      console.warn('set followConventions to disable this feature.')
-      useCache = false;
-    }
-  }
-
-  const [data, setData] = useState<T | undefined>(useCache ? cache.get(url) : undefined);
-  const [loading, setLoading] = useState<boolean>(!useCache || !cache.has(url));
-  const [error, setError] = useState<string | undefined>(undefined);
-  const controllerRef = useRef<AbortController | null>(null);
-  const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const timeoutIds = useRef<ReturnType<typeof setTimeout>[]>([]);
+    enabled = DEFAULT_ENABLED,
+    suspense = DEFAULT_SUSPENSE,
+    onUploadProgress,
+    onDownloadProgress,
+    refetchInterval = DEFAULT_REFETCH_INTERVAL,
+    refetchIntervalInBackground = DEFAULT_REFETCH_INTERVAL_IN_BACKGROUND,
+    refetchOnWindowFocus = DEFAULT_REFETCH_ON_WINDOW_FOCUS,
+    refetchOnReconnect = DEFAULT_REFETCH_ON_RECONNECT,
+    signal,
+  } = { ...network.fetchConfig, ...config };
+
+  // the request itself (url, conventions, cache key, retries, parsing...) is resolved by the client
+  const prepare = (requestOptions?: RequestInit) => client.prepareRequest<T>(url, { ...config, ...requestOptions } as UseFetchConfig<T>);
+  // rendering reads the memoized request, `fetchData` prepares it again from the latest config
+  const { key: cacheKey, useCache, staleTime, cacheTime, read, run } = useMemo(() => prepare(), [client, url, JSON.stringify(config)]);
+  const prepareRef = useRef(prepare);
+  prepareRef.current = prepare;
+
+  // prefetched or hydrated data is rendered on mount even without `useCache`
+  const initialDataRef = useRef<boolean>(hasInitialData(cache, cacheKey));
+  const readsCache = useCache || initialDataRef.current;
+
+  const [data, setData] = useState<T | undefined>(readsCache ? read() : undefined);
+  const [loading, setLoading] = useState<boolean>(enabled && (!readsCache || !cache.has(cacheKey)));
+  const [isFetching, setIsFetching] = useState<boolean>(enabled && (!readsCache || !cache.has(cacheKey)));
+  const [isStale, setIsStale] = useState<boolean>(useCache && cache.has(cacheKey) && cache.isStale(cacheKey, staleTime));
+  const [error, setError] = useState<NetworkError | undefined>(undefined);
+  const [retryCount, setRetryCount] = useState<number>(0);
+  const [status, setStatus] = useState<RequestStatus>(readsCache && cache.has(cacheKey) ? 'success' : enabled && !runInFuture ? 'loading' : 'idle');
+  const [progress, setProgress] = useState<Progress | undefined>(undefined);
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | undefined>(undefined);
+  const requestRef = useRef<DedupedRequest<T> | null>(null);
+  const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const fetchDataRef = useRef<(newOptions?: RequestInit) => void>(() => undefined);
+  const abortRef = useRef<() => void>(() => undefined);
+  const cacheKeyRef = useRef<string>(cacheKey);
+  const triggerRef = useRef<RefetchTrigger | undefined>(undefined);
+  const signalRef = useRef(signal);
+  signalRef.current = signal;
+  const progressCallbacksRef = useRef({ onUploadProgress, onDownloadProgress });
+  progressCallbacksRef.current = { onUploadProgress, onDownloadProgress };
 
   const fetchData = useCallback((newOptions?: RequestInit) => {
-    options = { ...options, ...newOptions };
+    // set by `useRefetchTriggers` for automatic refetches, which run in the background
+    const trigger = triggerRef.current;
+    triggerRef.current = undefined;
+    const { signal: requestSignal = signalRef.current, ...requestOptions } = newOptions || {};
     if (debounceTimerRef.current) {
       clearTimeout(debounceTimerRef.current);
     }
 
     debounceTimerRef.current = setTimeout(async () => {
-      if (useCache && cache.has(url)) {
-        setData(cache.get(url));
+      debounceTimerRef.current = null;
+      // prepared once the debounce is over, from the latest config
+      const prepared = prepareRef.current(requestOptions);
+      const { key, useCache, staleTime } = prepared;
+      if (useCache) {
+        emitNetworkEvent({ type: 'cache', key, hit: cache.has(key), stale: cache.has(key) && cache.isStale(key, staleTime) });
+      }
+      if (useCache && cache.has(key)) {
+        setData(prepared.read());
         setLoading(false);
+        const stale = cache.isStale(key, staleTime);
+        setIsStale(stale);
+        // stale-while-revalidate: keep showing cached data while refetching in the background.
+        // Polling refetches regardless of freshness.
+        if (!stale && trigger !== 'interval') {
+          setIsFetching(false);
+          setStatus('success');
+          return;
+        }
+      } else if (!trigger) {
+        setLoading(true);
+      }
+      if (requestSignal?.aborted) {
+        setLoading(false);
+        setIsFetching(false);
+        setStatus('cancelled');
         return;
       }
-
-      setLoading(true);
+      setIsFetching(true);
+      setStatus('loading');
       setError(undefined);
-
-      let attempt = 0;
-      while (attempt <= retries) {
-        try {
-          if (controllerRef.current) {
-            controllerRef.current.abort();
-          }
-
-          const controller = new AbortController();
-          controllerRef.current = controller;
-          const signal = controller.signal;
-          const timeoutId = setTimeout(() => controller.abort(), timeout);
-          timeoutIds.current.push(timeoutId);
-
-          const response = await fetch(url, { ...options, signal });
-          clearTimeout(timeoutId);
-          timeoutIds.current = timeoutIds.current.filter(id => id !== timeoutId);
-
-          if (!response.ok) {
-            throw new Error(`Error: ${response.status} ${response.statusText}`);
-          }
-
-          retries = 0;
-          const result: T = await response.json();
-          setData(result);
-          if (useCache) {
-            cache.set(url, result);
-          }
-          setError(undefined);
-          return;
-        } catch (err) {
-          if (err instanceof Error) {
-            setError(err.message);
-          } else {
-            setError('An unknown error occurred');
-          }
-          attempt++;
-          if (attempt > retries) break;
-          await new Promise(resolve => setTimeout(resolve, retryDelay));
-        } finally {
+      setRetryCount(0);
+      setProgress(undefined);
+
+      const onEvent = (event: RequestEvent) => {
+        if (event.type === 'retry') {
+          setRetryCount(event.attempt);
+        } else if (event.type === 'progress') {
+          setProgress(event.progress);
+          const { onUploadProgress, onDownloadProgress } = progressCallbacksRef.current;
+          (event.progress.direction === 'upload' ? onUploadProgress : onDownloadProgress)?.(event.progress);
+        } else if (event.type === 'queue') {
+          setQueueStatus(event.status);
+        }
+      };
+
+      requestRef.current?.release();
+      const request = prepared.dedupe ? cache.dedupe(key, prepared.run, onEvent) : runUnshared(prepared.run, onEvent);
+      requestRef.current = request;
+      // superseded requests are released already, only the current one is cancelled
+      const stopListening = onSignalAbort(requestSignal, () => {
+        if (requestRef.current === request) abortRef.current();
+      });
+
+      try {
+        const result = await request.promise;
+        if (requestRef.current !== request) return;
+        setData(result);
+        setIsStale(false);
+        setError(undefined);
+        setStatus('success');
+      } catch (err) {
+        if (requestRef.current !== request) return;
+        const networkError = toNetworkError(err);
+        if (networkError instanceof AbortError) {
+          setStatus('cancelled');
+        } else {
+          setError(networkError);
+          setStatus('error');
+        }
+      } finally {
+        stopListening();
+        if (requestRef.current === request) {
+          requestRef.current = null;
           setLoading(false);
+          setIsFetching(false);
         }
       }
-      setLoading(false);
     }, debounceTime);
-  }, [url, options, retries, retryDelay, timeout, useCache, debounceTime]);
+  }, [cache, debounceTime]);
+
+  fetchDataRef.current = fetchData;
 
   useEffect(() => {
-    if (runInFuture === false) {
-      fetchData();
-    }
-    return () => {
-      if (debounceTimerRef.current) {
-        clearTimeout(debounceTimerRef.current);
+    if (!useCache) return;
+    return cache.subscribe(cacheKey, (event, entry) => {
+      if (event === 'updated' && entry) {
+        setData(entry.data);
+        setIsStale(false);
+      } else if (event === 'invalidated' && enabled) {
+        fetchDataRef.current();
       }
-      controllerRef.current?.abort();
-      timeoutIds.current.forEach(clearTimeout);
-    };
-  }, []);
+    });
+  }, [cache, cacheKey, useCache, enabled]);
+
+  // refetches from `networkEvents` ignore fresh cache entries
+  useEffect(() => registerRefetch(cacheKey, () => {
+    if (useCache && cache.has(cacheKey)) {
+      cache.invalidate(cacheKey);
+    } else {
+      fetchDataRef.current();
+    }
+  }), [cache, cacheKey, useCache]);
+
+  useRefetchTriggers(
+    enabled && !runInFuture,
+    { refetchInterval, refetchIntervalInBackground, refetchOnWindowFocus, refetchOnReconnect },
+    trigger => {
+      // let a slow poll finish instead of restarting it on every tick
+      if (trigger === 'interval' && requestRef.current) return;
+      triggerRef.current = trigger;
+      fetchDataRef.current();
+    }
+  );
+
+  const cancel = () => {
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current);
+      debounceTimerRef.current = null;
+    }
+    requestRef.current?.release();
+    requestRef.current = null;
+  };
+
+  useEffect(() => {
+    if (cacheKeyRef.current !== cacheKey) {
+      cacheKeyRef.current = cacheKey;
+      setData(useCache ? read() : undefined);
+      setIsStale(useCache && cache.has(cacheKey) && cache.isStale(cacheKey, staleTime));
+      setLoading(enabled && (!useCache || !cache.has(cacheKey)));
+      setIsFetching(enabled && (!useCache || !cache.has(cacheKey)));
+      setStatus(useCache && cache.has(cacheKey) ? 'success' : enabled && !runInFuture ? 'loading' : 'idle');
+      setError(undefined);
+    }
+    if (runInFuture || !enabled) {
+      return;
+    }
+    if (initialDataRef.current) {
+      initialDataRef.current = false;
+      consumeInitialData(cache, cacheKey);
+      // cached hooks still revalidate stale data below
+      if (!useCache) return;
+    }
+    fetchDataRef.current();
+    return cancel;
+  }, [cacheKey, enabled, runInFuture]);
+
+  useEffect(() => cancel, []);
 
   const abort = () => {
-    controllerRef.current?.abort();
+    // a request still waiting for `debounceTime` is cancelled too
+    if (requestRef.current || debounceTimerRef.current) {
+      cancel();
+      setLoading(false);
+      setIsFetching(false);
+      setStatus('cancelled');
+    }
   };
+  abortRef.current = abort;
+
+  if (suspense && useCache && enabled && !runInFuture) {
+    if (!cache.has(cacheKey)) {
+      assertSuspenseCache(network);
+      suspend(cache, cacheKey, run, cacheTime);
+    }
+    // after a key change the state catches up in an effect, the cache already has the new data
+    const current = cacheKeyRef.current === cacheKey ? data : read();
+    return { data: current as T, loading: false, isFetching, isStale, attempt: retryCount + 1, retryCount, status, progress, queueStatus, error, refetch: fetchData, abort };
+  }
 
   if (runInFuture) {
-    return { data, loading, error, refetch: fetchData, abort, fetch: fetchData };
+    return { data, loading, isFetching, isStale, attempt: retryCount + 1, retryCount, status, progress, queueStatus, error, refetch: fetchData, abort, fetch: fetchData };
   } else {
-    return { data, loading, error, refetch: fetchData, abort };
+    return { data, loading, isFetching, isStale, attempt: retryCount + 1, retryCount, status, progress, queueStatus, error, refetch: fetchData, abort };
   }
 };
 
-const useFetchGet = <T>(url: string, config?: UseFetchConfig): FetchState<T> => {
+const useFetchGet = <T>(url: string, config?: UseFetchConfig<T>): FetchState<T> => {
   return useFetch<T>(url, { ...config, method: 'GET' });
 }
 
-const useFetchHead = <T>(url: string, config?: UseFetchConfig): FetchState<T> => {
-  return useFetch<T>(url, { ...config, method: 'HEAD' });
+const useFetchHead = <T = Record<string, string>>(url: string, config?: UseFetchConfig<T>): FetchState<T> => {
+  return useFetch<T>(url, { parse: parseHeaders, ...config, method: 'HEAD' });
 }
 
-const useFetchPost = <T>(url: string, config?: UseFetchConfig): FetchState<T> => {
+const useFetchPost = <T>(url: string, config?: UseFetchConfig<T>): FetchState<T> => {
   return useFetch<T>(url, { ...config, method: 'POST' });
 }
 
-const useFetchPut = <T>(url: string, config?: UseFetchConfig): FetchState<T> => {
+const useFetchPut = <T>(url: string, config?: UseFetchConfig<T>): FetchState<T> => {
   return useFetch<T>(url, { ...config, method: 'PUT' });
 }
 
-const useFetchDelete = <T>(url: string, config?: UseFetchConfig): FetchState<T> => {
+const useFetchDelete = <T>(url: string, config?: UseFetchConfig<T>): FetchState<T> => {
   return useFetch<T>(url, { ...config, method: 'DELETE' });
 }
 
-const useFetchConnect = <T>(url: string, config?: UseFetchConfig): FetchState<T> => {
+const useFetchConnect = <T>(url: string, config?: UseFetchConfig<T>): FetchState<T> => {
   return useFetch<T>(url, { ...config, method: 'CONNECT' });
 }
 
-const useFetchOptions = <T>(url: string, config?: UseFetchConfig): FetchState<T> => {
+const useFetchOptions = <T>(url: string, config?: UseFetchConfig<T>): FetchState<T> => {
   return useFetch<T>(url, { ...config, method: 'OPTIONS' });
 }
 
-const useFetchTrace = <T>(url: string, config?: UseFetchConfig): FetchState<T> => {
+const useFetchTrace = <T>(url: string, config?: UseFetchConfig<T>): FetchState<T> => {
   return useFetch<T>(url, { ...config, method: 'TRACE' });
 }
 
-const useFetchPatch = <T>(url: string, config?: UseFetchConfig): FetchState<T> => {
+const useFetchPatch = <T>(url: string, config?: UseFetchConfig<T>): FetchState<T> => {
   return useFetch<T>(url, { ...config, method: 'PATCH' });
 }
 
+/**
+ * `useFetch` in suspense mode: renders only once `data` is available, suspending to the
+ * nearest `<Suspense>` boundary until then, and throws errors to the nearest error boundary.
+ */
+const useSuspenseFetch = <T>(url: string, config?: SuspenseFetchConfig<T>): SuspenseFetchState<T> => {
+  return useFetch<T>(url, { ...config, suspense: true });
+}
+
+export type { FetchState, FutureFetchState, SuspenseFetchState, UseFetchConfig };
+
 export {
   useFetch,
   useFetchGet,
@@ -272,4 +468,5 @@ export {
   useFetchOptions,
   useFetchTrace,
   useFetchPatch,
+  useSuspenseFetch,
 };
@@ -1,132 +1,323 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useNetworkConfig } from './NetworkProvider';
+import { runUnshared, DedupedRequest } from './dedupe';
+import { onSignalAbort, RequestEvent, RequestStatus } from './request';
+import type { RetryPredicate } from './retry';
+import { NetworkError, AbortError, toNetworkError } from './errors';
+import type { Interceptor } from './interceptors';
+import { useRefetchTriggers, RefetchTrigger } from './refetch';
+import type { Schema } from './validate';
+import type { NormalizedCache } from './normalizedCache';
+import type { PersistedQueryOptions } from './graphqlTransport';
+import { suspend, assertSuspenseCache } from './suspense';
+import { hasInitialData, consumeInitialData } from './ssr';
+import { emitNetworkEvent, registerRefetch } from './events';
+import { createClient } from './client';
 
-const DEFAULT_RETRIES = 3;
-const DEFAULT_RETRY_DELAY = 1000;
-const DEFAULT_TIMEOUT = 5000;
 const DEFAULT_DEBOUNCE_TIME = 300;
-const DEFAULT_USE_CACHE = false;
+const DEFAULT_ENABLED = true;
+const DEFAULT_SUSPENSE = false;
+const DEFAULT_REFETCH_INTERVAL = false;
+const DEFAULT_REFETCH_INTERVAL_IN_BACKGROUND = false;
+const DEFAULT_REFETCH_ON_WINDOW_FOCUS = false;
+const DEFAULT_REFETCH_ON_RECONNECT = false;
 
-interface GraphQLConfig {
+export interface GraphQLConfig<T = any> {
     variables?: Record<string, any>;
+    operationName?: string;
+    method?: 'POST' | 'GET';
+    persistedQueries?: boolean | PersistedQueryOptions;
     retries?: number;
+    retry?: number | RetryPredicate;
     retryDelay?: number;
+    maxRetryDelay?: number;
+    retryBackoff?: number;
+    retryJitter?: boolean;
     timeout?: number;
     debounceTime?: number;
     useCache?: boolean;
+    staleTime?: number;
+    cacheTime?: number;
+    dedupe?: boolean;
+    enabled?: boolean;
+    suspense?: boolean;
+    schema?: Schema<T>;
+    normalizedCache?: NormalizedCache;
+    refetchInterval?: number | false;
+    refetchIntervalInBackground?: boolean;
+    refetchOnWindowFocus?: boolean;
+    refetchOnReconnect?: boolean;
     headers?: HeadersInit;
+    interceptors?: Interceptor[];
+    /** Cancels the hook's request when aborted, like `abort()`, on top of `timeout`. */
+    signal?: AbortSignal;
 }
 
-interface GraphQLResponse<T> {
+export interface GraphQLResponse<T> {
     data?: T;
     loading: boolean;
-    error?: string;
+    isFetching: boolean;
+    isStale: boolean;
+    attempt: number;
+    retryCount: number;
+    /** Aborted requests (`abort()` or `signal`) are `cancelled` without an `error`. */
+    status: RequestStatus;
+    error?: NetworkError;
     refetch: () => void;
     abort: () => void;
 }
 
-const cache = new Map<string, any>();
+export interface SuspenseGraphQLResponse<T> extends Omit<GraphQLResponse<T>, 'data'> {
+    data: T;
+}
+
+export type SuspenseGraphQLConfig<T = any> = Omit<GraphQLConfig<T>, 'suspense' | 'enabled'>;
 
-export const useGraphQL = <T>(
+export function useGraphQL<T>(url: string, query: string, config: SuspenseGraphQLConfig<T> & { suspense: true }): SuspenseGraphQLResponse<T>;
+export function useGraphQL<T>(url: string, query: string, config?: GraphQLConfig<T>): GraphQLResponse<T>;
+export function useGraphQL<T>(
     url: string,
     query: string,
-    config?: GraphQLConfig
-): GraphQLResponse<T> => {
+    config?: GraphQLConfig<T>
+): GraphQLResponse<T> | SuspenseGraphQLResponse<T> {
+    const network = useNetworkConfig();
+    const client = useMemo(() => createClient(network), [network]);
+    const cache = client.cache;
+
     const {
-        variables = {},
-        retries = DEFAULT_RETRIES,
-        retryDelay = DEFAULT_RETRY_DELAY,
-        timeout = DEFAULT_TIMEOUT,
         debounceTime = DEFAULT_DEBOUNCE_TIME,
-        useCache = DEFAULT_USE_CACHE,
-        headers = { 'Content-Type': 'application/json' }
-    } = config || {};
-
-    const cacheKey = JSON.stringify({ url, query, variables });
-    const [data, setData] = useState<T | undefined>(useCache ? cache.get(cacheKey) : undefined);
-    const [loading, setLoading] = useState<boolean>(!useCache || !cache.has(cacheKey));
-    const [error, setError] = useState<string | undefined>(undefined);
-    const controllerRef = useRef<AbortController | null>(null);
-    const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
-    const timeoutIds = useRef<ReturnType<typeof setTimeout>[]>([]);
+        enabled = DEFAULT_ENABLED,
+        suspense = DEFAULT_SUSPENSE,
+        normalizedCache,
+        refetchInterval = DEFAULT_REFETCH_INTERVAL,
+        refetchIntervalInBackground = DEFAULT_REFETCH_INTERVAL_IN_BACKGROUND,
+        refetchOnWindowFocus = DEFAULT_REFETCH_ON_WINDOW_FOCUS,
+        refetchOnReconnect = DEFAULT_REFETCH_ON_RECONNECT,
+        signal,
+    } = { ...network.graphQLConfig, ...config };
+
+    // the request itself (cache key, retries, transport, normalization...) is resolved by the client
+    const prepare = () => client.prepareGraphQL<T>(url, query, config);
+    // rendering reads the memoized request, `fetchData` prepares it again from the latest config
+    const { key: cacheKey, useCache, staleTime, cacheTime, read: readCache, run } = useMemo(() => prepare(), [client, url, query, JSON.stringify(config)]);
+    const prepareRef = useRef(prepare);
+    prepareRef.current = prepare;
+
+    // prefetched or hydrated data is rendered on mount even without `useCache`
+    const initialDataRef = useRef<boolean>(hasInitialData(cache, cacheKey));
+    const readsCache = useCache || initialDataRef.current;
+    const [data, setData] = useState<T | undefined>(readsCache ? readCache() : undefined);
+    const [loading, setLoading] = useState<boolean>(enabled && (!readsCache || !cache.has(cacheKey)));
+    const [isFetching, setIsFetching] = useState<boolean>(enabled && (!readsCache || !cache.has(cacheKey)));
+    const [isStale, setIsStale] = useState<boolean>(useCache && cache.has(cacheKey) && cache.isStale(cacheKey, staleTime));
+    const [error, setError] = useState<NetworkError | undefined>(undefined);
+    const [retryCount, setRetryCount] = useState<number>(0);
+    const [status, setStatus] = useState<RequestStatus>(readsCache && cache.has(cacheKey) ? 'success' : enabled ? 'loading' : 'idle');
+    const requestRef = useRef<DedupedRequest<T> | null>(null);
+    const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const fetchDataRef = useRef<() => void>(() => undefined);
+    const abortRef = useRef<() => void>(() => undefined);
+    const cacheKeyRef = useRef<string>(cacheKey);
+    const triggerRef = useRef<RefetchTrigger | undefined>(undefined);
+    const signalRef = useRef(signal);
+    signalRef.current = signal;
 
     const fetchData = useCallback(() => {
+        // set by `useRefetchTriggers` for automatic refetches, which run in the background
+        const trigger = triggerRef.current;
+        triggerRef.current = undefined;
         if (debounceTimerRef.current) {
             clearTimeout(debounceTimerRef.current);
         }
 
         debounceTimerRef.current = setTimeout(async () => {
-            if (useCache && cache.has(cacheKey)) {
-                setData(cache.get(cacheKey));
+            debounceTimerRef.current = null;
+            const requestSignal = signalRef.current;
+            // prepared once the debounce is over, from the latest config
+            const prepared = prepareRef.current();
+            const { key, useCache, staleTime } = prepared;
+            if (useCache) {
+                emitNetworkEvent({ type: 'cache', key, hit: cache.has(key), stale: cache.has(key) && cache.isStale(key, staleTime) });
+            }
+            if (useCache && cache.has(key)) {
+                setData(prepared.read());
                 setLoading(false);
+                const stale = cache.isStale(key, staleTime);
+                setIsStale(stale);
+                // polling refetches regardless of freshness
+                if (!stale && trigger !== 'interval') {
+                    setIsFetching(false);
+                    setStatus('success');
+                    return;
+                }
+            } else if (!trigger) {
+                setLoading(true);
+            }
+            if (requestSignal?.aborted) {
+                setLoading(false);
+                setIsFetching(false);
+                setStatus('cancelled');
                 return;
             }
-
-            setLoading(true);
+            setIsFetching(true);
+            setStatus('loading');
             setError(undefined);
+            setRetryCount(0);
 
-            let attempt = 0;
-            while (attempt <= retries) {
-                try {
-                    controllerRef.current?.abort();
-                    const controller = new AbortController();
-                    controllerRef.current = controller;
-                    const signal = controller.signal;
-                    const timeoutId = setTimeout(() => controller.abort(), timeout);
-                    timeoutIds.current.push(timeoutId);
-
-                    const response = await fetch(url, {
-                        method: 'POST',
-                        headers,
-                        body: JSON.stringify({ query, variables }),
-                        signal
-                    });
-
-                    clearTimeout(timeoutId);
-                    timeoutIds.current = timeoutIds.current.filter(id => id !== timeoutId);
-
-                    if (!response.ok) {
-                        throw new Error(`Error: ${response.status} ${response.statusText}`);
-                    }
-
-                    const json = await response.json();
-                    if (json.errors) {
-                        throw new Error(json.errors.map((e: any) => e.message).join('; '));
-                    }
-
-                    setData(json.data);
-                    if (useCache) {
-                        cache.set(cacheKey, json.data);
-                    }
-                    setError(undefined);
-                    return;
-                } catch (err) {
-                    if (err instanceof Error) {
-                        setError(err.message);
-                    } else {
-                        setError('An unknown error occurred');
-                    }
-                    attempt++;
-                    if (attempt > retries) break;
-                    await new Promise(resolve => setTimeout(resolve, retryDelay));
-                } finally {
+            const onEvent = (event: RequestEvent) => {
+                if (event.type === 'retry') {
+                    setRetryCount(event.attempt);
+                }
+            };
+
+            requestRef.current?.release();
+            const request = prepared.dedupe ? cache.dedupe(key, prepared.run, onEvent) : runUnshared(prepared.run, onEvent);
+            requestRef.current = request;
+            // superseded requests are released already, only the current one is cancelled
+            const stopListening = onSignalAbort(requestSignal, () => {
+                if (requestRef.current === request) abortRef.current();
+            });
+
+            try {
+                const result = await request.promise;
+                if (requestRef.current !== request) return;
+                setData(result);
+                setIsStale(false);
+                setError(undefined);
+                setStatus('success');
+            } catch (err) {
+                if (requestRef.current !== request) return;
+                const networkError = toNetworkError(err);
+                if (networkError instanceof AbortError) {
+                    setStatus('cancelled');
+                } else {
+                    setError(networkError);
+                    setStatus('error');
+                }
+            } finally {
+                stopListening();
+                if (requestRef.current === request) {
+                    requestRef.current = null;
                     setLoading(false);
+                    setIsFetching(false);
                 }
             }
         }, debounceTime);
-    }, [url, query, JSON.stringify(variables), retries, retryDelay, timeout, useCache, debounceTime]);
+    }, [cache, debounceTime]);
+
+    fetchDataRef.current = fetchData;
+
+    useEffect(() => {
+        if (!useCache) return;
+        return cache.subscribe(cacheKey, (event, entry) => {
+            if (event === 'updated' && entry) {
+                setData(entry.data);
+                setIsStale(false);
+            } else if (event === 'invalidated' && enabled) {
+                fetchDataRef.current();
+            }
+        });
+    }, [cache, cacheKey, useCache, enabled]);
+
+    // re-render when an entity in this result changes, whichever query or mutation wrote it
+    useEffect(() => {
+        if (!normalizedCache) return;
+        return normalizedCache.watch(cacheKey, () => {
+            const next = normalizedCache.read<T>(cacheKey);
+            if (next !== undefined) {
+                setData(next);
+            }
+        });
+    }, [normalizedCache, cacheKey]);
+
+    // refetches from `networkEvents` ignore fresh cache entries
+    useEffect(() => registerRefetch(cacheKey, () => {
+        if (useCache && cache.has(cacheKey)) {
+            cache.invalidate(cacheKey);
+        } else {
+            fetchDataRef.current();
+        }
+    }), [cache, cacheKey, useCache]);
 
+    useRefetchTriggers(
+        enabled,
+        { refetchInterval, refetchIntervalInBackground, refetchOnWindowFocus, refetchOnReconnect },
+        trigger => {
+            // let a slow poll finish instead of restarting it on every tick
+            if (trigger === 'interval' && requestRef.current) return;
+            triggerRef.current = trigger;
+            fetchDataRef.current();
+        }
+    );
+
+    const cancel = () => {
+        if (debounceTimerRef.current) {
+            clearTimeout(debounceTimerRef.current);
+            debounceTimerRef.current = null;
+        }
+        requestRef.current?.release();
+        requestRef.current = null;
+    };
+
+    // refetch whenever the query or its variables change, cancelling the previous request
     useEffect(() => {
-        fetchData();
-        return () => {
-            if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current);
-            controllerRef.current?.abort();
-            timeoutIds.current.forEach(clearTimeout);
-        };
-    }, []);
+        if (cacheKeyRef.current !== cacheKey) {
+            cacheKeyRef.current = cacheKey;
+            setData(useCache ? readCache() : undefined);
+            setIsStale(useCache && cache.has(cacheKey) && cache.isStale(cacheKey, staleTime));
+            setLoading(enabled && (!useCache || !cache.has(cacheKey)));
+            setIsFetching(enabled && (!useCache || !cache.has(cacheKey)));
+            setStatus(useCache && cache.has(cacheKey) ? 'success' : enabled ? 'loading' : 'idle');
+            setError(undefined);
+        }
+        if (!enabled) {
+            return;
+        }
+        if (initialDataRef.current) {
+            initialDataRef.current = false;
+            consumeInitialData(cache, cacheKey);
+            // cached hooks still revalidate stale data below
+            if (!useCache) return;
+        }
+        fetchDataRef.current();
+        return cancel;
+    }, [cacheKey, enabled]);
+
+    // requests started by `refetch` while disabled aren't cancelled by the effect above
+    useEffect(() => cancel, []);
 
     const abort = () => {
-        controllerRef.current?.abort();
+        // a request still waiting for `debounceTime` is cancelled too
+        if (requestRef.current || debounceTimerRef.current) {
+            cancel();
+            setLoading(false);
+            setIsFetching(false);
+            setStatus('cancelled');
+        }
     };
+    abortRef.current = abort;
 
-    return { data, loading, error, refetch: fetchData, abort };
+    if (suspense && enabled) {
+        if (!cache.has(cacheKey)) {
+            assertSuspenseCache(network);
+            suspend(cache, cacheKey, run, cacheTime);
+        }
+        // after a variables change the state catches up in an effect, the cache already has the new data
+        const current = cacheKeyRef.current === cacheKey ? data : readCache();
+        return { data: current as T, loading: false, isFetching, isStale, attempt: retryCount + 1, retryCount, status, error, refetch: fetchData, abort };
+    }
+
+    return { data, loading, isFetching, isStale, attempt: retryCount + 1, retryCount, status, error, refetch: fetchData, abort };
+}
+
+/**
+ * `useGraphQL` in suspense mode: renders only once `data` is available, suspending to the
+ * nearest `<Suspense>` boundary until then, and throws errors to the nearest error boundary.
+ */
+export const useSuspenseGraphQL = <T>(
+    url: string,
+    query: string,
+    config?: SuspenseGraphQLConfig<T>
+): SuspenseGraphQLResponse<T> => {
+    return useGraphQL<T>(url, query, { ...config, suspense: true });
 };
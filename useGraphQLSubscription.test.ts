@@ -0,0 +1,168 @@
+import { renderHook, act } from "@testing-library/react-hooks";
+import { useGraphQLSubscription } from "./useGraphQLSubscription";
+import { GRAPHQL_WS_PROTOCOL } from "./graphqlWs";
+
+class MockWebSocket {
+  static instances: MockWebSocket[] = [];
+
+  url: string;
+  protocol: string;
+  sent: any[] = [];
+  closed?: { code?: number; reason?: string };
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+
+  constructor(url: string, protocol: string) {
+    this.url = url;
+    this.protocol = protocol;
+    MockWebSocket.instances.push(this);
+  }
+
+  send(message: string) {
+    this.sent.push(JSON.parse(message));
+  }
+
+  close(code?: number, reason?: string) {
+    this.closed = { code, reason };
+  }
+
+  // server side helpers
+  open() {
+    this.onopen?.();
+  }
+
+  receive(message: Record<string, unknown>) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  drop(code = 1006, reason = "") {
+    this.onclose?.({ code, reason });
+  }
+
+  subscriptionIds() {
+    return this.sent.filter(message => message.type === "subscribe").map(message => message.id);
+  }
+}
+
+describe("useGraphQLSubscription", () => {
+  const subscription = "subscription Countdown($from: Int!) { countdown(from: $from) }";
+  const webSocketImpl = MockWebSocket as unknown as typeof WebSocket;
+  const flush = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    MockWebSocket.instances = [];
+  });
+
+  it("should multiplex subscriptions over one connection", async () => {
+    const onData = jest.fn();
+    const { result } = renderHook(() => [
+      useGraphQLSubscription<{ countdown: number }>("http://localhost:4002/graphql", subscription, {
+        variables: { from: 3 },
+        connectionParams: { authToken: "secret" },
+        webSocketImpl,
+        onData,
+      }),
+      useGraphQLSubscription<{ countdown: number }>("http://localhost:4002/graphql", subscription, {
+        variables: { from: 5 },
+        connectionParams: { authToken: "secret" },
+        webSocketImpl,
+      }),
+    ]);
+
+    expect(MockWebSocket.instances).toHaveLength(1);
+    const socket = MockWebSocket.instances[0];
+    expect(socket.url).toBe("ws://localhost:4002/graphql");
+    expect(socket.protocol).toBe(GRAPHQL_WS_PROTOCOL);
+    expect(result.current[0].status).toBe("connecting");
+
+    await act(async () => {
+      socket.open();
+      await flush();
+    });
+    expect(socket.sent).toEqual([{ type: "connection_init", payload: { authToken: "secret" } }]);
+
+    act(() => socket.receive({ type: "connection_ack" }));
+    expect(result.current[0].status).toBe("active");
+    const [first, second] = socket.subscriptionIds();
+    expect(socket.sent[1]).toEqual({ id: first, type: "subscribe", payload: { query: subscription, variables: { from: 3 } } });
+
+    act(() => {
+      socket.receive({ id: first, type: "next", payload: { data: { countdown: 3 } } });
+      socket.receive({ id: second, type: "next", payload: { data: { countdown: 5 } } });
+      socket.receive({ type: "ping" });
+    });
+    expect(result.current[0].data).toEqual({ countdown: 3 });
+    expect(result.current[1].data).toEqual({ countdown: 5 });
+    expect(onData).toHaveBeenCalledWith({ countdown: 3 });
+    expect(socket.sent[socket.sent.length - 1]).toEqual({ type: "pong" });
+
+    act(() => socket.receive({ id: first, type: "complete" }));
+    expect(result.current[0].status).toBe("completed");
+    expect(result.current[1].status).toBe("active");
+  });
+
+  it("should reconnect with backoff and resubscribe", async () => {
+    const { result, waitFor } = renderHook(() =>
+      useGraphQLSubscription("ws://localhost:4002/reconnect", subscription, {
+        variables: { from: 1 },
+        webSocketImpl,
+        retryDelay: 10,
+        retryJitter: false,
+      })
+    );
+    const socket = MockWebSocket.instances[0];
+    await act(async () => {
+      socket.open();
+      await flush();
+    });
+    act(() => socket.receive({ type: "connection_ack" }));
+
+    act(() => socket.drop());
+    expect(result.current.status).toBe("reconnecting");
+
+    await waitFor(() => expect(MockWebSocket.instances).toHaveLength(2));
+    const reconnected = MockWebSocket.instances[1];
+    await act(async () => {
+      reconnected.open();
+      await flush();
+    });
+    act(() => reconnected.receive({ type: "connection_ack" }));
+
+    expect(result.current.status).toBe("active");
+    expect(reconnected.subscriptionIds()).toEqual(socket.subscriptionIds());
+  });
+
+  it("should fail without reconnecting on fatal close codes", async () => {
+    const onError = jest.fn();
+    const { result } = renderHook(() =>
+      useGraphQLSubscription("ws://localhost:4002/forbidden", subscription, { webSocketImpl, onError })
+    );
+
+    act(() => MockWebSocket.instances[0].drop(4403, "Forbidden"));
+
+    expect(result.current.status).toBe("error");
+    expect(result.current.error?.message).toBe("Forbidden");
+    expect(onError).toHaveBeenCalledTimes(1);
+    await act(flush);
+    expect(MockWebSocket.instances).toHaveLength(1);
+  });
+
+  it("should complete the subscription and close the socket on unmount", async () => {
+    const { unmount } = renderHook(() =>
+      useGraphQLSubscription("ws://localhost:4002/unmount", subscription, { webSocketImpl })
+    );
+    const socket = MockWebSocket.instances[0];
+    await act(async () => {
+      socket.open();
+      await flush();
+    });
+    act(() => socket.receive({ type: "connection_ack" }));
+    const [id] = socket.subscriptionIds();
+
+    unmount();
+    expect(socket.sent[socket.sent.length - 1]).toEqual({ id, type: "complete" });
+    await act(flush);
+    expect(socket.closed).toEqual({ code: 1000, reason: "Normal Closure" });
+  });
+});
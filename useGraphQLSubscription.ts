@@ -0,0 +1,204 @@
+/**
+ * A React hook subscribing to a GraphQL subscription over WebSocket (`graphql-ws` protocol).
+ *
+ * Subscriptions to the same endpoint share a single socket. `http(s)` URLs (including
+ * the `NetworkProvider` `baseUrl`) are turned into `ws(s)` URLs, so the same endpoint
+ * can be used for `useGraphQL` and `useGraphQLSubscription`. The subscription restarts
+ * when the query or its variables change and stops on unmount.
+ *
+ * @param {string} url - The GraphQL endpoint.
+ * @param {string} query - The subscription document.
+ * @param {GraphQLSubscriptionConfig} [config] - Optional configuration for the subscription.
+ * @param {Record<string, any>} [config.variables] - The subscription variables.
+ * @param {string} [config.operationName] - The operation to run when the document has several.
+ * @param {object|function} [config.connectionParams] - The `connection_init` payload (e.g. `{ authToken }`), or a function returning it, called on every (re)connect.
+ * @param {function} [config.onData] - Called with the `data` of every event.
+ * @param {function} [config.onError] - Called with a `NetworkError` when an event carries errors or the subscription fails.
+ * @param {function} [config.onComplete] - Called when the server completes the subscription.
+ * @param {boolean} [config.enabled=true] - If false, the subscription is not started.
+ * @param {number|function} [config.retry=Infinity] - How many times to reconnect after the socket drops, or an `(attempt, error) => boolean` predicate.
+ * @param {number} [config.retryDelay=1000] - The base delay (in milliseconds) before reconnecting.
+ * @param {number} [config.maxRetryDelay=30000] - The upper bound (in milliseconds) of the delay between reconnects.
+ * @param {number} [config.retryBackoff=2] - The factor the delay grows by after each failed reconnect.
+ * @param {boolean} [config.retryJitter=true] - Whether to randomize reconnect delays.
+ * @param {typeof WebSocket} [config.webSocketImpl] - A custom `WebSocket` implementation (e.g. `ws` outside the browser).
+ *
+ * @returns {GraphQLSubscriptionState} The latest `data`, `error`, the subscription `status` and `unsubscribe`.
+ *
+ * @example
+ * ```tsx
+ * const { data, status } = useGraphQLSubscription<{ countdown: number }>(
+ *   'http://localhost:4002/graphql',
+ *   'subscription Countdown($from: Int!) { countdown(from: $from) }',
+ *   { variables: { from: 10 }, connectionParams: { authToken } }
+ * );
+ * ```
+ */
+import { useState, useEffect, useRef } from 'react';
+import { useNetworkConfig, resolveUrl } from './NetworkProvider';
+import { getGraphQLWsConnection, ConnectionParams } from './graphqlWs';
+import type { RetryPredicate } from './retry';
+import { NetworkError, GraphQLError } from './errors';
+
+const DEFAULT_RETRIES = Infinity;
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_MAX_RETRY_DELAY = 30000;
+const DEFAULT_RETRY_BACKOFF = 2;
+const DEFAULT_RETRY_JITTER = true;
+const DEFAULT_ENABLED = true;
+
+type SubscriptionStatus = 'idle' | 'connecting' | 'active' | 'reconnecting' | 'completed' | 'error';
+
+interface GraphQLSubscriptionConfig<T> {
+  variables?: Record<string, any>;
+  operationName?: string;
+  connectionParams?: ConnectionParams;
+  onData?: (data: T) => void;
+  onError?: (error: NetworkError) => void;
+  onComplete?: () => void;
+  enabled?: boolean;
+  retries?: number;
+  retry?: number | RetryPredicate;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  retryBackoff?: number;
+  retryJitter?: boolean;
+  webSocketImpl?: typeof WebSocket;
+}
+
+interface GraphQLSubscriptionState<T> {
+  data?: T;
+  error?: NetworkError;
+  loading: boolean;
+  status: SubscriptionStatus;
+  unsubscribe: () => void;
+}
+
+const toWebSocketUrl = (url: string): string => {
+  if (/^wss?:\/\//i.test(url)) {
+    return url;
+  }
+  if (/^https?:\/\//i.test(url)) {
+    return url.replace(/^http/i, 'ws');
+  }
+  if (typeof window !== 'undefined' && window.location) {
+    const { protocol, host } = window.location;
+    return `${protocol === 'https:' ? 'wss' : 'ws'}://${host}/${url.replace(/^\/+/, '')}`;
+  }
+  return url;
+};
+
+const useGraphQLSubscription = <T = unknown>(
+  url: string,
+  query: string,
+  config?: GraphQLSubscriptionConfig<T>
+): GraphQLSubscriptionState<T> => {
+  const network = useNetworkConfig();
+  const endpoint = toWebSocketUrl(resolveUrl(network.baseUrl, url));
+
+  const {
+    variables = {},
+    operationName,
+    connectionParams,
+    enabled = DEFAULT_ENABLED,
+    retries = DEFAULT_RETRIES,
+    retry = retries,
+    retryDelay = DEFAULT_RETRY_DELAY,
+    maxRetryDelay = DEFAULT_MAX_RETRY_DELAY,
+    retryBackoff = DEFAULT_RETRY_BACKOFF,
+    retryJitter = DEFAULT_RETRY_JITTER,
+    webSocketImpl,
+  } = config || {};
+
+  const [data, setData] = useState<T | undefined>(undefined);
+  const [error, setError] = useState<NetworkError | undefined>(undefined);
+  const [status, setStatus] = useState<SubscriptionStatus>(enabled ? 'connecting' : 'idle');
+  const callbacksRef = useRef(config);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  callbacksRef.current = config;
+
+  const subscriptionKey = JSON.stringify([
+    endpoint,
+    query,
+    variables,
+    operationName,
+    typeof connectionParams === 'function' ? null : connectionParams,
+  ]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('idle');
+      return;
+    }
+
+    let active = true;
+    setError(undefined);
+    const connection = getGraphQLWsConnection(endpoint, {
+      connectionParams,
+      webSocketImpl,
+      retry,
+      retryDelay,
+      maxRetryDelay,
+      retryBackoff,
+      retryJitter,
+    });
+    const unsubscribe = connection.subscribe<T>({ query, variables, operationName }, {
+      next: result => {
+        if (!active) return;
+        if (result.errors) {
+          const err = new GraphQLError(result.errors, result.data);
+          setError(err);
+          callbacksRef.current?.onError?.(err);
+          return;
+        }
+        setData(result.data);
+        setError(undefined);
+        callbacksRef.current?.onData?.(result.data as T);
+      },
+      error: err => {
+        if (!active) return;
+        active = false;
+        setError(err);
+        setStatus('error');
+        callbacksRef.current?.onError?.(err);
+      },
+      complete: () => {
+        if (!active) return;
+        active = false;
+        setStatus('completed');
+        callbacksRef.current?.onComplete?.();
+      },
+      status: connectionStatus => {
+        if (!active) return;
+        setStatus(connectionStatus === 'connected' ? 'active' : connectionStatus);
+      },
+    });
+
+    unsubscribeRef.current = () => {
+      active = false;
+      unsubscribe();
+    };
+    return () => {
+      unsubscribeRef.current?.();
+      unsubscribeRef.current = null;
+    };
+  }, [subscriptionKey, enabled]);
+
+  const unsubscribe = () => {
+    if (unsubscribeRef.current) {
+      unsubscribeRef.current();
+      unsubscribeRef.current = null;
+      setStatus('idle');
+    }
+  };
+
+  const loading = data === undefined && (status === 'connecting' || status === 'active' || status === 'reconnecting');
+
+  return { data, error, loading, status, unsubscribe };
+};
+
+export type { GraphQLSubscriptionConfig, GraphQLSubscriptionState, SubscriptionStatus };
+
+export {
+  useGraphQLSubscription,
+};
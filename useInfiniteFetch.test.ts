@@ -0,0 +1,145 @@
+import { createElement } from "react";
+import { renderHook, act } from "@testing-library/react-hooks";
+import { useInfiniteFetch, useInfiniteGraphQL, parseLinkHeader } from "./useInfiniteFetch";
+import { NetworkProvider } from "./NetworkProvider";
+import { createQueryCache, QueryCache } from "./cache";
+
+describe("useInfiniteFetch", () => {
+  let cache: QueryCache;
+  let customFetch: jest.Mock;
+  const wrapper = ({ children }: { children: any }) =>
+    createElement(NetworkProvider, { cache, fetch: customFetch, fetchConfig: { debounceTime: 0 }, graphQLConfig: { debounceTime: 0 } }, children);
+  const page = (body: unknown, headers: Record<string, string> = {}) => ({
+    ok: true,
+    status: 200,
+    headers: new Map(Object.keys(headers).map(key => [key, headers[key]])),
+    json: async () => body,
+  });
+
+  beforeEach(() => {
+    cache = createQueryCache();
+    customFetch = jest.fn();
+  });
+
+  it("should parse Link headers", () => {
+    expect(parseLinkHeader('<https://api.example.com/users?page=2>; rel="next", <https://api.example.com/users?page=5>; rel="last"')).toEqual({
+      next: "https://api.example.com/users?page=2",
+      last: "https://api.example.com/users?page=5",
+    });
+    expect(parseLinkHeader(null)).toEqual({});
+  });
+
+  it("should accumulate offset pages until there is no next page", async () => {
+    customFetch
+      .mockResolvedValueOnce(page([1, 2]))
+      .mockResolvedValueOnce(page([3]));
+
+    const { result, waitFor } = renderHook(() => useInfiniteFetch<number[], number>(
+      offset => `https://api.example.com/items?offset=${offset}`,
+      {
+        initialPageParam: 0,
+        getNextPageParam: (last, pages) => (last.length === 2 ? pages.length * 2 : undefined),
+      }
+    ), { wrapper });
+
+    await waitFor(() => expect(result.current.pages).toEqual([[1, 2]]));
+    expect(result.current.hasNextPage).toBe(true);
+
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+
+    expect(result.current.pages).toEqual([[1, 2], [3]]);
+    expect(result.current.pageParams).toEqual([0, 2]);
+    expect(result.current.hasNextPage).toBe(false);
+    expect(customFetch.mock.calls[1][0]).toBe("https://api.example.com/items?offset=2");
+  });
+
+  it("should follow Link header pagination and cache every page", async () => {
+    customFetch
+      .mockResolvedValueOnce(page(["a"], { link: '<https://api.example.com/items?page=2>; rel="next"' }))
+      .mockResolvedValueOnce(page(["b"]));
+
+    const { result, waitFor } = renderHook(() => useInfiniteFetch<string[], string>(
+      "https://api.example.com/items",
+      { useCache: true, getNextPageParam: (_last, _pages, info) => info.links.next }
+    ), { wrapper });
+
+    await waitFor(() => expect(result.current.pages).toEqual([["a"]]));
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+
+    expect(result.current.pages).toEqual([["a"], ["b"]]);
+    expect(customFetch.mock.calls[1][0]).toBe("https://api.example.com/items?page=2");
+    expect(cache.keys()).toHaveLength(2);
+  });
+
+  it("should refetch cached pages and follow the HTTP conventions", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    customFetch
+      .mockResolvedValueOnce(page(["a"]))
+      .mockResolvedValueOnce(page(["b"]))
+      .mockResolvedValueOnce(page(["c"]));
+
+    const { result, waitFor } = renderHook(() => ({
+      cached: useInfiniteFetch<string[]>("https://api.example.com/items", { useCache: true, getNextPageParam: () => undefined }),
+      search: useInfiniteFetch<string[]>("https://api.example.com/search", { method: "PUT", useCache: true, getNextPageParam: () => undefined }),
+    }), { wrapper });
+
+    await waitFor(() => expect(result.current.cached.pages).toEqual([["a"]]));
+    await waitFor(() => expect(result.current.search.pages).toEqual([["b"]]));
+    expect(warn).toHaveBeenCalledWith("Caching is not allowed for PUT requests. Ignoring cache.");
+    expect(cache.keys()).toHaveLength(1);
+
+    act(() => result.current.cached.refetch());
+    await waitFor(() => expect(result.current.cached.pages).toEqual([["c"]]));
+    expect(customFetch).toHaveBeenCalledTimes(3);
+    warn.mockRestore();
+  });
+
+  it("should cancel page loads when the signal aborts", async () => {
+    customFetch
+      .mockResolvedValueOnce(page([1, 2]))
+      .mockReturnValueOnce(new Promise(() => undefined));
+    const controller = new AbortController();
+
+    const { result, waitFor } = renderHook(() => useInfiniteFetch<number[], number>(
+      offset => `https://api.example.com/items?offset=${offset}`,
+      { initialPageParam: 0, getNextPageParam: (_last, pages) => pages.length * 2, signal: controller.signal }
+    ), { wrapper });
+    await waitFor(() => expect(result.current.status).toBe("success"));
+
+    act(() => {
+      result.current.fetchNextPage();
+    });
+    await waitFor(() => expect(result.current.isFetchingNextPage).toBe(true));
+    act(() => controller.abort());
+
+    expect(result.current.status).toBe("cancelled");
+    expect(result.current.isFetchingNextPage).toBe(false);
+    expect(result.current.error).toBeUndefined();
+    expect(result.current.pages).toEqual([[1, 2]]);
+  });
+
+  it("should pass page params as GraphQL variables", async () => {
+    customFetch
+      .mockResolvedValueOnce(page({ data: { users: { nodes: [1], endCursor: "c1" } } }))
+      .mockResolvedValueOnce(page({ data: { users: { nodes: [2], endCursor: null } } }));
+    type UsersPage = { users: { nodes: number[]; endCursor: string | null } };
+
+    const { result, waitFor } = renderHook(() => useInfiniteGraphQL<UsersPage, string>(
+      "https://api.example.com/graphql",
+      "query Users($after: String) { users(after: $after) { nodes endCursor } }",
+      { variables: { first: 1 }, getNextPageParam: last => last.users.endCursor }
+    ), { wrapper });
+
+    await waitFor(() => expect(result.current.pages).toHaveLength(1));
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+
+    expect(JSON.parse(customFetch.mock.calls[1][1].body).variables).toEqual({ first: 1, after: "c1" });
+    expect(result.current.hasNextPage).toBe(false);
+  });
+});
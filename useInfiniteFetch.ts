@@ -0,0 +1,390 @@
+/**
+ * Hooks for paginated and infinite-scroll lists.
+ *
+ * The first page is loaded with `initialPageParam`. After each page,
+ * `getNextPageParam(lastPage, pages, info)` returns the parameter of the next page,
+ * or `undefined`/`null` when there is none (`hasNextPage` is then false); the same
+ * goes for `getPreviousPageParam` and `fetchPreviousPage`. `info` holds the response
+ * headers and the parsed `Link` header, so offset, cursor and `Link`-header
+ * pagination all fit:
+ *
+ * - offset: `url: offset => `/api/users?offset=${offset}``, `getNextPageParam: (last, pages) => pages.length * 20`
+ * - cursor: `url: cursor => `/api/users?cursor=${cursor}``, `getNextPageParam: last => last.nextCursor`
+ * - `Link` header: `url: '/api/users'`, `getNextPageParam: (last, pages, info) => info.links.next`
+ *   (with a string `url`, a string page param is used as the URL of the page)
+ *
+ * Every page is requested with the `UseFetchConfig` retry, timeout and `followConventions`
+ * options. With `useCache: true`, every page is stored in the shared cache on its own and
+ * fresh pages are read from it, like `useFetch` responses. The list restarts from the first
+ * page when the first page's request changes, and `refetch` does the same on demand,
+ * requesting the first page again even when it is cached.
+ *
+ * `abort()` and the `signal` option cancel the page being loaded, `status` then becomes
+ * `cancelled` and the pages loaded so far are kept.
+ *
+ * @example
+ * ```tsx
+ * const { pages, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteFetch<User[], number>(
+ *   page => `/api/users?page=${page}`,
+ *   { initialPageParam: 1, getNextPageParam: (last, pages) => last.length ? pages.length + 1 : undefined }
+ * );
+ * ```
+ */
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useNetworkConfig, toHeaderRecord } from './NetworkProvider';
+import { createPageCacheKey, QueryCache } from './cache';
+import { onSignalAbort, RequestStatus } from './request';
+import { NetworkError, AbortError, toNetworkError } from './errors';
+import type { RefetchOption } from './refetch';
+import type { ProgressOption } from './progress';
+import { runUnshared, DedupedRequest } from './dedupe';
+import { createClient, PreparedRequest } from './client';
+import type { UseFetchConfig } from './useFetch';
+import type { GraphQLConfig } from './useGraphQL';
+
+const DEFAULT_DEBOUNCE_TIME = 300;
+const DEFAULT_ENABLED = true;
+const DEFAULT_HTTP_METHOD = 'GET';
+
+interface PageInfo {
+  headers: Record<string, string>;
+  links: Record<string, string>;
+}
+
+interface Page<T> {
+  data: T;
+  info: PageInfo;
+}
+
+type PageParamGetter<T, P> = (page: T, pages: T[], info: PageInfo) => P | undefined | null;
+
+interface InfiniteOptions<T, P> {
+  initialPageParam?: P;
+  getNextPageParam: PageParamGetter<T, P>;
+  getPreviousPageParam?: PageParamGetter<T, P>;
+}
+
+interface InfiniteFetchConfig<T, P> extends Omit<UseFetchConfig, 'runInFuture' | 'dedupe' | 'schema' | 'suspense' | 'offlineQueue' | 'params' | 'query' | RefetchOption | ProgressOption>, InfiniteOptions<T, P> {
+}
+
+interface InfiniteGraphQLConfig<T, P> extends Omit<GraphQLConfig, 'dedupe' | 'schema' | 'normalizedCache' | 'suspense' | RefetchOption>, InfiniteOptions<T, P> {
+  pageVariables?: (pageParam: P | undefined) => Record<string, any>;
+}
+
+interface InfiniteFetchState<T, P> {
+  pages: T[];
+  pageParams: (P | undefined)[];
+  loading: boolean;
+  isFetchingNextPage: boolean;
+  isFetchingPreviousPage: boolean;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  status: RequestStatus;
+  error?: NetworkError;
+  fetchNextPage: () => Promise<void>;
+  fetchPreviousPage: () => Promise<void>;
+  refetch: () => void;
+  abort: () => void;
+}
+
+interface InfiniteQueryOptions<T, P> extends InfiniteOptions<T, P> {
+  cache: QueryCache;
+  pageRequest: (pageParam: P | undefined) => PreparedRequest<Page<T>>;
+  enabled: boolean;
+  debounceTime: number;
+  signal?: AbortSignal | null;
+}
+
+/** Parses an RFC 8288 `Link` header into a `rel` → URL map. */
+const parseLinkHeader = (header?: string | null): Record<string, string> => {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+  header.split(/,(?=\s*<)/).forEach(part => {
+    const match = part.match(/<([^>]*)>(.*)/);
+    if (!match) return;
+    const rel = match[2].match(/rel\s*=\s*"?([^";]+)"?/i);
+    if (!rel) return;
+    rel[1].trim().split(/\s+/).forEach(name => {
+      links[name.toLowerCase()] = match[1];
+    });
+  });
+  return links;
+};
+
+const getPageInfo = (response: Response): PageInfo => {
+  const headers = response.headers ? toHeaderRecord(response.headers) : {};
+  return { headers, links: parseLinkHeader(response.headers?.get('link')) };
+};
+
+const useInfiniteQuery = <T, P>(firstPageKey: string, options: InfiniteQueryOptions<T, P>): InfiniteFetchState<T, P> => {
+  const { enabled, debounceTime, getNextPageParam, getPreviousPageParam } = options;
+
+  const [pages, setPages] = useState<Page<T>[]>([]);
+  const [pageParams, setPageParams] = useState<(P | undefined)[]>([]);
+  const [loading, setLoading] = useState<boolean>(enabled);
+  const [fetchingDirection, setFetchingDirection] = useState<'next' | 'previous' | null>(null);
+  const [error, setError] = useState<NetworkError | undefined>(undefined);
+  const [status, setStatus] = useState<RequestStatus>(enabled ? 'loading' : 'idle');
+  const optionsRef = useRef(options);
+  const pagesRef = useRef<Page<T>[]>([]);
+  const pageParamsRef = useRef<(P | undefined)[]>([]);
+  const fetchingRef = useRef(false);
+  // bumped on every reset and on unmount; results from an older generation are dropped
+  const generationRef = useRef(0);
+  const requestsRef = useRef(new Set<DedupedRequest<Page<T>>>());
+  const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  optionsRef.current = options;
+
+  const commit = (nextPages: Page<T>[], nextPageParams: (P | undefined)[]) => {
+    pagesRef.current = nextPages;
+    pageParamsRef.current = nextPageParams;
+    setPages(nextPages);
+    setPageParams(nextPageParams);
+  };
+
+  const cancel = () => {
+    generationRef.current++;
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current);
+      debounceTimerRef.current = null;
+    }
+    requestsRef.current.forEach(request => request.release());
+    requestsRef.current.clear();
+    fetchingRef.current = false;
+  };
+
+  /** Cancels the loads of `generation` when the `signal` option aborts, returns the cleanup. */
+  const listenForAbort = (generation: number) => onSignalAbort(optionsRef.current.signal, () => {
+    if (generationRef.current === generation) abort();
+  });
+
+  /** Reports a failed load, an abort of the request is a cancellation. */
+  const fail = (err: unknown) => {
+    const networkError = toNetworkError(err);
+    setError(networkError instanceof AbortError ? undefined : networkError);
+    setStatus(networkError instanceof AbortError ? 'cancelled' : 'error');
+  };
+
+  const loadPage = async (pageParam: P | undefined, refresh = false): Promise<Page<T>> => {
+    const { cache, pageRequest } = optionsRef.current;
+    // with `useCache`, pages are cached by the client under their own keys
+    const { key, useCache, staleTime, dedupe, read, run } = pageRequest(pageParam);
+    if (!refresh && useCache && cache.has(key) && !cache.isStale(key, staleTime)) {
+      return read()!;
+    }
+    const request = dedupe ? cache.dedupe(key, run) : runUnshared(run);
+    requestsRef.current.add(request);
+    try {
+      return await request.promise;
+    } finally {
+      requestsRef.current.delete(request);
+    }
+  };
+
+  /** With `refresh`, the first page is requested again even when the cached one is fresh. */
+  const loadFirstPage = (refresh = false) => {
+    cancel();
+    const generation = generationRef.current;
+    const { initialPageParam } = optionsRef.current;
+    setLoading(true);
+    setError(undefined);
+    setStatus('loading');
+    const stopListening = listenForAbort(generation);
+    // the signal was aborted already
+    if (generationRef.current !== generation) return;
+    loadPage(initialPageParam, refresh).then(
+      page => {
+        stopListening();
+        if (generationRef.current !== generation) return;
+        commit([page], [initialPageParam]);
+        setLoading(false);
+        setStatus('success');
+      },
+      err => {
+        stopListening();
+        if (generationRef.current !== generation) return;
+        fail(err);
+        setLoading(false);
+      }
+    );
+  };
+
+  const fetchPage = async (direction: 'next' | 'previous') => {
+    const current = pagesRef.current;
+    const getPageParam = direction === 'next' ? optionsRef.current.getNextPageParam : optionsRef.current.getPreviousPageParam;
+    if (!current.length || !getPageParam || fetchingRef.current) return;
+
+    const edge = direction === 'next' ? current[current.length - 1] : current[0];
+    const pageParam = getPageParam(edge.data, current.map(page => page.data), edge.info);
+    if (pageParam === undefined || pageParam === null) return;
+
+    const generation = generationRef.current;
+    fetchingRef.current = true;
+    setFetchingDirection(direction);
+    setError(undefined);
+    setStatus('loading');
+    const stopListening = listenForAbort(generation);
+    try {
+      if (generationRef.current !== generation) return;
+      const page = await loadPage(pageParam);
+      if (generationRef.current !== generation) return;
+      if (direction === 'next') {
+        commit([...pagesRef.current, page], [...pageParamsRef.current, pageParam]);
+      } else {
+        commit([page, ...pagesRef.current], [pageParam, ...pageParamsRef.current]);
+      }
+      setStatus('success');
+    } catch (err) {
+      if (generationRef.current !== generation) return;
+      fail(err);
+    } finally {
+      stopListening();
+      if (generationRef.current === generation) {
+        fetchingRef.current = false;
+        setFetchingDirection(null);
+      }
+    }
+  };
+
+  useEffect(() => {
+    commit([], []);
+    if (!enabled) {
+      setLoading(false);
+      setStatus('idle');
+      return;
+    }
+    setLoading(true);
+    setStatus('loading');
+    debounceTimerRef.current = setTimeout(() => loadFirstPage(), debounceTime);
+    return cancel;
+  }, [firstPageKey, enabled]);
+
+  const abort = () => {
+    cancel();
+    setLoading(false);
+    setFetchingDirection(null);
+    setStatus('cancelled');
+  };
+
+  const data = pages.map(page => page.data);
+  const first = pages[0];
+  const last = pages[pages.length - 1];
+  const isPageParam = (pageParam: P | undefined | null) => pageParam !== undefined && pageParam !== null;
+
+  return {
+    pages: data,
+    pageParams,
+    loading,
+    isFetchingNextPage: fetchingDirection === 'next',
+    isFetchingPreviousPage: fetchingDirection === 'previous',
+    hasNextPage: !!last && isPageParam(getNextPageParam(last.data, data, last.info)),
+    hasPreviousPage: !!first && !!getPreviousPageParam && isPageParam(getPreviousPageParam(first.data, data, first.info)),
+    status,
+    error,
+    fetchNextPage: () => fetchPage('next'),
+    fetchPreviousPage: () => fetchPage('previous'),
+    refetch: () => loadFirstPage(true),
+    abort,
+  };
+};
+
+/** Keeps the headers of a page's response next to its data, for the page param getters. */
+const toPage = <T>(data: T, response: Response): Page<T> => ({ data, info: getPageInfo(response) });
+
+const useInfiniteFetch = <T, P = unknown>(
+  url: string | ((pageParam: P | undefined) => string),
+  config: InfiniteFetchConfig<T, P>
+): InfiniteFetchState<T, P> => {
+  const network = useNetworkConfig();
+  const client = useMemo(() => createClient(network), [network]);
+
+  const {
+    debounceTime = DEFAULT_DEBOUNCE_TIME,
+    enabled = DEFAULT_ENABLED,
+    initialPageParam,
+    getNextPageParam,
+    getPreviousPageParam,
+    signal,
+    ...requestConfig
+  } = { ...network.fetchConfig, ...config } as UseFetchConfig & InfiniteFetchConfig<T, P>;
+
+  // retries, conventions, parsing and caching are applied by the client, every page is a request of its own
+  const pageRequest = (pageParam: P | undefined) => client.prepareRequest<Page<T>>(
+    typeof url === 'function' ? url(pageParam) : typeof pageParam === 'string' && pageParam ? pageParam : url,
+    { ...requestConfig, schema: undefined, suspense: false, offlineQueue: undefined },
+    { cacheKey: createPageCacheKey, select: toPage }
+  );
+  const firstPageKey = useMemo(
+    () => pageRequest(initialPageParam).key,
+    [client, typeof url === 'function' ? url(initialPageParam) : url, JSON.stringify(requestConfig)]
+  );
+
+  return useInfiniteQuery<T, P>(firstPageKey, {
+    cache: client.cache,
+    pageRequest,
+    initialPageParam,
+    getNextPageParam,
+    getPreviousPageParam,
+    enabled,
+    debounceTime,
+    signal,
+  });
+};
+
+const useInfiniteGraphQL = <T, P = unknown>(
+  url: string,
+  query: string,
+  config: InfiniteGraphQLConfig<T, P>
+): InfiniteFetchState<T, P> => {
+  const network = useNetworkConfig();
+  const client = useMemo(() => createClient(network), [network]);
+
+  const {
+    variables = {},
+    debounceTime = DEFAULT_DEBOUNCE_TIME,
+    enabled = DEFAULT_ENABLED,
+    pageVariables = (pageParam: P | undefined) => (pageParam === undefined ? {} : { after: pageParam }),
+    initialPageParam,
+    getNextPageParam,
+    getPreviousPageParam,
+    signal,
+    ...requestConfig
+  } = { ...network.graphQLConfig, ...config } as InfiniteGraphQLConfig<T, P>;
+
+  const pageRequest = (pageParam: P | undefined) => client.prepareGraphQL<Page<T>>(
+    url,
+    query,
+    { ...requestConfig, variables: { ...variables, ...pageVariables(pageParam) }, schema: undefined, normalizedCache: undefined, suspense: false },
+    { cacheKey: createPageCacheKey, select: toPage }
+  );
+  const firstPageKey = useMemo(
+    () => pageRequest(initialPageParam).key,
+    [client, url, query, JSON.stringify([variables, pageVariables(initialPageParam), requestConfig])]
+  );
+
+  return useInfiniteQuery<T, P>(firstPageKey, {
+    cache: client.cache,
+    pageRequest,
+    initialPageParam,
+    getNextPageParam,
+    getPreviousPageParam,
+    enabled,
+    debounceTime,
+    signal,
+  });
+};
+
+export type {
+  InfiniteFetchConfig,
+  InfiniteGraphQLConfig,
+  InfiniteFetchState,
+  PageInfo,
+  PageParamGetter,
+};
+
+export {
+  useInfiniteFetch,
+  useInfiniteGraphQL,
+  parseLinkHeader,
+};
@@ -0,0 +1,125 @@
+import { createElement } from "react";
+import { renderHook, act } from "@testing-library/react-hooks";
+import { useMutation, useGraphQLMutation } from "./useMutation";
+import { NetworkProvider } from "./NetworkProvider";
+import { createQueryCache, QueryCache } from "./cache";
+import { HttpError, AbortError } from "./errors";
+
+describe("useMutation", () => {
+  let cache: QueryCache;
+  let customFetch: jest.Mock;
+  const wrapper = ({ children }: { children: any }) =>
+    createElement(NetworkProvider, { baseUrl: "https://api.example.com", cache, fetch: customFetch }, children);
+
+  beforeEach(() => {
+    cache = createQueryCache();
+    customFetch = jest.fn();
+  });
+
+  it("should not send anything until mutate is called", async () => {
+    customFetch.mockResolvedValueOnce({ ok: true, status: 201, json: async () => ({ id: "1", name: "Ada" }) });
+
+    const { result } = renderHook(() => useMutation("/api/users"), { wrapper });
+    expect(customFetch).not.toHaveBeenCalled();
+    expect(result.current.status).toBe("idle");
+
+    await act(async () => {
+      await result.current.mutateAsync({ name: "Ada" });
+    });
+
+    expect(result.current.status).toBe("success");
+    expect(result.current.data).toEqual({ id: "1", name: "Ada" });
+    const [url, init] = customFetch.mock.calls[0];
+    expect(url).toBe("https://api.example.com/api/users");
+    expect(init.method).toBe("POST");
+    expect(init.body).toBe(JSON.stringify({ name: "Ada" }));
+    expect(init.headers).toEqual({ "Content-Type": "application/json" });
+  });
+
+  it("should roll back optimistic updates when the mutation fails", async () => {
+    cache.set("users", [{ id: "1" }]);
+    customFetch.mockResolvedValueOnce({ ok: false, status: 422, statusText: "Unprocessable Entity" });
+    const onError = jest.fn();
+
+    const { result } = renderHook(() => useMutation<unknown, { id: string }>("/api/users", {
+      onMutate: (user, optimistic) => {
+        optimistic.setQueryData<{ id: string }[]>("users", users => [...(users || []), user]);
+        optimistic.setQueryData("user:2", user);
+        expect(cache.getQueryData("users")).toEqual([{ id: "1" }, { id: "2" }]);
+      },
+      onError,
+    }), { wrapper });
+
+    await act(async () => {
+      await expect(result.current.mutateAsync({ id: "2" })).rejects.toBeInstanceOf(HttpError);
+    });
+
+    expect(result.current.status).toBe("error");
+    expect(onError).toHaveBeenCalledWith(expect.any(HttpError), { id: "2" }, undefined);
+    expect(cache.getQueryData("users")).toEqual([{ id: "1" }]);
+    expect(cache.has("user:2")).toBe(false);
+  });
+
+  it("should report mutations cancelled through the signal as cancelled, and roll them back", async () => {
+    cache.set("users", [{ id: "1" }]);
+    customFetch.mockImplementationOnce((_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+      })
+    );
+    const controller = new AbortController();
+
+    const { result } = renderHook(() => useMutation<unknown, { id: string }>("/api/users", {
+      signal: controller.signal,
+      onMutate: (user, optimistic) => optimistic.setQueryData<{ id: string }[]>("users", users => [...(users || []), user]),
+    }), { wrapper });
+
+    await act(async () => {
+      const mutation = result.current.mutateAsync({ id: "2" });
+      await Promise.resolve();
+      controller.abort();
+      await expect(mutation).rejects.toBeInstanceOf(AbortError);
+    });
+
+    expect(result.current.status).toBe("cancelled");
+    expect(result.current.error).toBeUndefined();
+    expect(cache.getQueryData("users")).toEqual([{ id: "1" }]);
+  });
+
+  it("should invalidate keys and call callbacks after success", async () => {
+    cache.set("users", []);
+    customFetch.mockResolvedValueOnce({ ok: true, status: 204 });
+    const onSuccess = jest.fn();
+    const onSettled = jest.fn();
+
+    const { result } = renderHook(() => useMutation<undefined, string>(id => `/api/users/${id}`, {
+      method: "DELETE",
+      invalidate: key => key === "users",
+      onSuccess,
+      onSettled,
+    }), { wrapper });
+
+    await act(async () => {
+      await result.current.mutateAsync("1");
+    });
+
+    expect(customFetch.mock.calls[0][0]).toBe("https://api.example.com/api/users/1");
+    expect(cache.isStale("users", Infinity)).toBe(true);
+    expect(onSuccess).toHaveBeenCalledWith(undefined, "1", undefined);
+    expect(onSettled).toHaveBeenCalledWith(undefined, undefined, "1", undefined);
+  });
+
+  it("should send GraphQL mutations with variables", async () => {
+    customFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ data: { addUser: { id: "1" } } }) });
+    const mutation = "mutation AddUser($name: String!) { addUser(name: $name) { id } }";
+
+    const { result } = renderHook(() => useGraphQLMutation("/graphql", mutation), { wrapper });
+
+    await act(async () => {
+      await result.current.mutateAsync({ name: "Ada" });
+    });
+
+    expect(result.current.data).toEqual({ addUser: { id: "1" } });
+    expect(JSON.parse(customFetch.mock.calls[0][1].body)).toEqual({ query: mutation, variables: { name: "Ada" } });
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Hooks for requests that change data on the server.
+ *
+ * Unlike `useFetchPost`/`useFetchPut`/`useFetchDelete`, nothing is sent on mount:
+ * the request runs when `mutate(variables)` (or `mutateAsync`, which returns a
+ * promise) is called, and `variables` become the request body.
+ *
+ * `onMutate` runs before the request and receives a cache handle for optimistic
+ * updates. Every `setQueryData` made through that handle is recorded and rolled
+ * back automatically if the mutation fails. After a successful mutation, the keys
+ * listed in `invalidate` are invalidated so mounted queries refetch.
+ *
+ * `abort()` and the `signal` option cancel the running mutation: it is rolled back like a
+ * failed one, but `status` becomes `cancelled` instead of reporting an `error`.
+ *
+ * With an `offlineQueue`, mutations made while offline wait in the queue instead of
+ * failing (`queueStatus` tells so) and settle once the queue has replayed them.
+ *
+ * @template T - The type of the data returned by the server.
+ * @template V - The type of the variables passed to `mutate`.
+ *
+ * @example
+ * ```tsx
+ * const usersKey = createFetchCacheKey('https://api.example.com/api/users');
+ * const { mutate, loading } = useMutation<User, NewUser>('https://api.example.com/api/users', {
+ *   onMutate: (user, cache) => {
+ *     cache.setQueryData<User[]>(usersKey, users => [...(users || []), { id: 'temp', ...user }]);
+ *   },
+ *   invalidate: usersKey,
+ * });
+ *
+ * <button onClick={() => mutate({ name, email })} disabled={loading}>Add</button>
+ * ```
+ */
+import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
+import { useNetworkConfig, mergeHeaders } from './NetworkProvider';
+import { CacheKeyPredicate, CacheUpdater, QueryCache } from './cache';
+import { onSignalAbort, RequestEmitter, RequestEvent } from './request';
+import { NetworkError, AbortError, toNetworkError } from './errors';
+import type { RefetchOption } from './refetch';
+import type { ProgressOption } from './progress';
+import { addTypename } from './normalizedCache';
+import type { QueueStatus } from './offlineQueue';
+import { createClient } from './client';
+import type { UseFetchConfig } from './useFetch';
+import type { GraphQLConfig } from './useGraphQL';
+
+const DEFAULT_HTTP_METHOD = 'POST';
+
+type MutationStatus = 'idle' | 'loading' | 'success' | 'error' | 'cancelled';
+
+type InvalidateTarget = string | CacheKeyPredicate;
+
+interface OptimisticCache {
+  getQueryData: <D>(key: string) => D | undefined;
+  setQueryData: <D>(key: string, updater: CacheUpdater<D>) => void;
+}
+
+interface MutationCallbacks<T, V, C> {
+  onMutate?: (variables: V, cache: OptimisticCache) => C | Promise<C>;
+  onSuccess?: (data: T, variables: V, context?: C) => void | Promise<void>;
+  onError?: (error: NetworkError, variables: V, context?: C) => void | Promise<void>;
+  onSettled?: (data: T | undefined, error: NetworkError | undefined, variables: V, context?: C) => void | Promise<void>;
+  invalidate?: InvalidateTarget | InvalidateTarget[];
+}
+
+interface MutationConfig<T, V, C = unknown>
+  extends Omit<UseFetchConfig, 'body' | 'method' | 'runInFuture' | 'enabled' | 'useCache' | 'dedupe' | 'debounceTime' | 'schema' | 'suspense' | 'params' | 'query' | RefetchOption | ProgressOption>,
+  MutationCallbacks<T, V, C> {
+  method?: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+}
+
+interface GraphQLMutationConfig<T, V, C = unknown>
+  extends Omit<GraphQLConfig, 'variables' | 'method' | 'enabled' | 'useCache' | 'dedupe' | 'debounceTime' | 'schema' | 'suspense' | RefetchOption>,
+  MutationCallbacks<T, V, C> {
+}
+
+interface MutationState<T, V> {
+  data?: T;
+  error?: NetworkError;
+  loading: boolean;
+  status: MutationStatus;
+  queueStatus?: QueueStatus;
+  mutate: (variables: V) => void;
+  mutateAsync: (variables: V) => Promise<T>;
+  reset: () => void;
+  abort: () => void;
+}
+
+const isRawBody = (value: unknown): value is BodyInit =>
+  typeof value === 'string'
+  || (typeof FormData !== 'undefined' && value instanceof FormData)
+  || (typeof Blob !== 'undefined' && value instanceof Blob)
+  || (typeof URLSearchParams !== 'undefined' && value instanceof URLSearchParams)
+  || (typeof ArrayBuffer !== 'undefined' && value instanceof ArrayBuffer);
+
+/** The options of the request itself, without the callbacks and `signal` of the mutation. */
+const toRequestConfig = <O extends MutationCallbacks<any, any, any> & { signal?: AbortSignal | null }>(config: O) => {
+  const { onMutate, onSuccess, onError, onSettled, invalidate, signal, ...requestConfig } = config;
+  return requestConfig;
+};
+
+/** Records optimistic writes so they can be undone when the mutation fails. */
+const createOptimisticCache = (cache: QueryCache) => {
+  const snapshots = new Map<string, { exists: boolean; data: unknown }>();
+  const optimistic: OptimisticCache = {
+    getQueryData: key => cache.getQueryData(key),
+    setQueryData: (key, updater) => {
+      if (!snapshots.has(key)) {
+        snapshots.set(key, { exists: cache.has(key), data: cache.getQueryData(key) });
+      }
+      cache.setQueryData(key, updater);
+    },
+  };
+  const rollback = () => {
+    snapshots.forEach(({ exists, data }, key) => {
+      if (exists) {
+        cache.setQueryData(key, data);
+      } else {
+        cache.remove(key);
+      }
+    });
+  };
+  return { optimistic, rollback };
+};
+
+const useMutationState = <T, V, C>(
+  cache: QueryCache,
+  perform: (variables: V, signal: AbortSignal, emit: RequestEmitter) => Promise<T>,
+  { onMutate, onSuccess, onError, onSettled, invalidate }: MutationCallbacks<T, V, C>,
+  signal?: AbortSignal | null
+): MutationState<T, V> => {
+  const [data, setData] = useState<T | undefined>(undefined);
+  const [error, setError] = useState<NetworkError | undefined>(undefined);
+  const [status, setStatus] = useState<MutationStatus>('idle');
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | undefined>(undefined);
+  const controllerRef = useRef<AbortController | null>(null);
+  const mutationIdRef = useRef(0);
+  const mountedRef = useRef(true);
+  const signalRef = useRef(signal);
+  signalRef.current = signal;
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const mutateAsync = useCallback(async (variables: V): Promise<T> => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const mutationId = ++mutationIdRef.current;
+    // only the latest mutation of a mounted component updates the returned state
+    const isCurrent = () => mountedRef.current && mutationIdRef.current === mutationId;
+    const onEvent = (event: RequestEvent) => {
+      if (event.type === 'queue' && isCurrent()) {
+        setQueueStatus(event.status);
+      }
+    };
+
+    setStatus('loading');
+    setError(undefined);
+
+    const { optimistic, rollback } = createOptimisticCache(cache);
+    const stopListening = onSignalAbort(signalRef.current, () => controller.abort());
+    let context: C | undefined;
+    let result: T;
+    try {
+      context = onMutate ? await onMutate(variables, optimistic) : undefined;
+      result = await perform(variables, controller.signal, onEvent);
+    } catch (err) {
+      const networkError = toNetworkError(err);
+      rollback();
+      if (isCurrent()) {
+        setError(networkError instanceof AbortError ? undefined : networkError);
+        setStatus(networkError instanceof AbortError ? 'cancelled' : 'error');
+      }
+      await onError?.(networkError, variables, context);
+      await onSettled?.(undefined, networkError, variables, context);
+      throw networkError;
+    } finally {
+      stopListening();
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+    }
+
+    if (isCurrent()) {
+      setData(result);
+      setStatus('success');
+    }
+    const targets = invalidate === undefined ? [] : Array.isArray(invalidate) ? invalidate : [invalidate];
+    targets.forEach(target => cache.invalidate(target));
+    await onSuccess?.(result, variables, context);
+    await onSettled?.(result, undefined, variables, context);
+    return result;
+  }, [cache, perform, onMutate, onSuccess, onError, onSettled, invalidate]);
+
+  const mutate = useCallback((variables: V) => {
+    // errors are exposed through `error` and `onError`
+    mutateAsync(variables).catch(() => undefined);
+  }, [mutateAsync]);
+
+  const reset = useCallback(() => {
+    setData(undefined);
+    setError(undefined);
+    setStatus('idle');
+  }, []);
+
+  const abort = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { data, error, loading: status === 'loading', status, queueStatus, mutate, mutateAsync, reset, abort };
+};
+
+const useMutation = <T = unknown, V = unknown, C = unknown>(
+  url: string | ((variables: V) => string),
+  config?: MutationConfig<T, V, C>
+): MutationState<T, V> => {
+  const network = useNetworkConfig();
+  const client = useMemo(() => createClient(network), [network]);
+  const { onMutate, onSuccess, onError, onSettled, invalidate, signal } = config || {};
+  // read when `mutate` is called, so callbacks don't have to be memoized
+  const requestRef = useRef({ url, config });
+  requestRef.current = { url, config };
+
+  const perform = useCallback((variables: V, signal: AbortSignal, emit: RequestEmitter) => {
+    const { url, config } = requestRef.current;
+    const requestConfig = toRequestConfig(config || {});
+    const { method = DEFAULT_HTTP_METHOD } = { ...network.fetchConfig, ...config };
+    const raw = variables === undefined || isRawBody(variables);
+    // retries, conventions and the offline queue are applied by the client, like for every request
+    return client.prepareRequest<T>(typeof url === 'function' ? url(variables) : url, {
+      ...requestConfig,
+      method,
+      headers: raw ? requestConfig.headers : mergeHeaders({ 'Content-Type': 'application/json' }, requestConfig.headers),
+      body: raw ? variables as BodyInit | undefined : JSON.stringify(variables),
+      useCache: false,
+      dedupe: false,
+      suspense: false,
+    }).run(signal, emit);
+  }, [client, network.fetchConfig]);
+
+  return useMutationState<T, V, C>(client.cache, perform, { onMutate, onSuccess, onError, onSettled, invalidate }, signal);
+};
+
+const useGraphQLMutation = <T = unknown, V extends Record<string, any> = Record<string, any>, C = unknown>(
+  url: string,
+  mutation: string,
+  config?: GraphQLMutationConfig<T, V, C>
+): MutationState<T, V> => {
+  const network = useNetworkConfig();
+  const client = useMemo(() => createClient(network), [network]);
+  const { onMutate, onSuccess, onError, onSettled, invalidate, signal } = config || {};
+  const requestRef = useRef({ url, mutation, config });
+  requestRef.current = { url, mutation, config };
+
+  const perform = useCallback(async (variables: V, signal: AbortSignal, emit: RequestEmitter) => {
+    const { url, mutation, config } = requestRef.current;
+    const requestConfig = toRequestConfig(config || {});
+    const { normalizedCache } = { ...network.graphQLConfig, ...config };
+    const data = await client.prepareGraphQL<T>(url, normalizedCache ? addTypename(mutation) : mutation, {
+      ...requestConfig,
+      variables,
+      method: 'POST',
+      useCache: false,
+      dedupe: false,
+      suspense: false,
+      // written below without a query key, mutation results aren't queries
+      normalizedCache: undefined,
+    }).run(signal, emit);
+    // updated entities re-render every query that contains them
+    normalizedCache?.write(undefined, data);
+    return data;
+  }, [client, network.graphQLConfig]);
+
+  return useMutationState<T, V, C>(client.cache, perform, { onMutate, onSuccess, onError, onSettled, invalidate }, signal);
+};
+
+export type {
+  MutationConfig,
+  GraphQLMutationConfig,
+  MutationState,
+  MutationStatus,
+  OptimisticCache,
+};
+
+export {
+  useMutation,
+  useGraphQLMutation,
+  isRawBody,
+};
@@ -0,0 +1,244 @@
+/**
+ * A React hook for streamed responses (newline-delimited JSON or chunked text), which
+ * appends items to `data` as they arrive instead of waiting for the whole body.
+ *
+ * - `format: 'ndjson'` (default): every line of the body is parsed as JSON.
+ * - `format: 'text'`: every decoded chunk is an item, as the server flushed it.
+ *
+ * The request goes through the same machinery as `useFetch`: provider defaults,
+ * interceptors, `params`/`query`, and retries with `timeout` bounding each attempt until
+ * the response headers arrive. Once streaming, the body is read until the server ends it
+ * or the stream is cancelled (`abort`, the `signal` option, a new request or unmount);
+ * items received so far are kept. `schema` validates every item. The stream restarts when the request changes,
+ * and `refetch` does the same on demand.
+ *
+ * @template T - The type of a single item.
+ *
+ * @example
+ * ```tsx
+ * const { data: rows, status } = useStream<Row>('/api/export', { onItem: row => progress.tick() });
+ *
+ * return <Table rows={rows} footer={status === 'streaming' ? 'Loading more…' : undefined} />;
+ * ```
+ */
+import { useState, useEffect, useRef } from 'react';
+import { useNetworkConfig, mergeHeaders, resolveUrl } from './NetworkProvider';
+import { fetchWithRetry, onSignalAbort } from './request';
+import { AbortError, NetworkError, createHttpError, toNetworkError } from './errors';
+import { useInterceptedFetch } from './interceptors';
+import { validateData } from './validate';
+import { buildUrl } from './url';
+import { readBody, createLineParser } from './stream';
+import type { RefetchOption } from './refetch';
+import type { ProgressOption } from './progress';
+import { IDEMPOTENT_METHOD } from './client';
+import type { UseFetchConfig } from './useFetch';
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_MAX_RETRY_DELAY = 30000;
+const DEFAULT_RETRY_BACKOFF = 2;
+const DEFAULT_RETRY_JITTER = true;
+const DEFAULT_TIMEOUT = 5000;
+const DEFAULT_HTTP_METHOD = 'GET';
+const DEFAULT_ENABLED = true;
+const DEFAULT_FORMAT: StreamFormat = 'ndjson';
+
+type StreamFormat = 'ndjson' | 'text';
+
+type StreamStatus = 'idle' | 'connecting' | 'streaming' | 'done' | 'cancelled' | 'error';
+
+interface StreamConfig<T> extends Omit<UseFetchConfig<T>, 'useCache' | 'staleTime' | 'cacheTime' | 'dedupe' | 'debounceTime' | 'runInFuture' | 'responseType' | 'parse' | 'suspense' | 'offlineQueue' | RefetchOption | ProgressOption> {
+  format?: StreamFormat;
+  /** Turns a line (`ndjson`) or a chunk (`text`) into an item, instead of the default parsing. */
+  parse?: (chunk: string) => T;
+  /** Called with every item as it arrives. */
+  onItem?: (item: T) => void;
+}
+
+interface StreamState<T> {
+  data: T[];
+  /** Whether the stream is connecting or still streaming. */
+  loading: boolean;
+  status: StreamStatus;
+  error?: NetworkError;
+  refetch: () => void;
+  abort: () => void;
+}
+
+const useStream = <T = unknown>(url: string, config?: StreamConfig<T>): StreamState<T> => {
+  const network = useNetworkConfig();
+  const fetchImpl = useInterceptedFetch(network, config?.interceptors);
+  // stream-only options, a provider's `parse` reads whole responses
+  const { format = DEFAULT_FORMAT, parse, onItem } = config || {};
+
+  let {
+    followConventions = true,
+    retries = DEFAULT_RETRIES,
+    retry = retries,
+    retryDelay = DEFAULT_RETRY_DELAY,
+    maxRetryDelay = DEFAULT_MAX_RETRY_DELAY,
+    retryBackoff = DEFAULT_RETRY_BACKOFF,
+    retryJitter = DEFAULT_RETRY_JITTER,
+    timeout = DEFAULT_TIMEOUT,
+    method = DEFAULT_HTTP_METHOD,
+    enabled = DEFAULT_ENABLED,
+    schema,
+    params,
+    query,
+    // query-only options shared through `NetworkProvider`, not sent with the request
+    useCache,
+    staleTime,
+    cacheTime,
+    dedupe,
+    debounceTime,
+    runInFuture,
+    responseType,
+    parse: responseParser,
+    suspense,
+    trackProgress,
+    onUploadProgress,
+    onDownloadProgress,
+    offlineQueue,
+    refetchInterval,
+    refetchIntervalInBackground,
+    refetchOnWindowFocus,
+    refetchOnReconnect,
+    interceptors,
+    // cancels the stream like `abort()`, linked to each request's own controller
+    signal,
+    format: streamFormat,
+    onItem: itemCallback,
+    ...options
+  } = {
+    ...network.fetchConfig,
+    ...config,
+    headers: mergeHeaders(network.headers, network.fetchConfig?.headers, config?.headers),
+  } as UseFetchConfig<T> & Omit<StreamConfig<T>, 'parse'>;
+
+  if (followConventions && !IDEMPOTENT_METHOD.includes(method) && config?.retry === undefined && config?.retries === undefined) {
+    retry = 0;
+  }
+
+  const requestUrl = resolveUrl(network.baseUrl, buildUrl(url, params, query));
+  const requestKey = JSON.stringify([requestUrl, method, options]);
+
+  const [data, setData] = useState<T[]>([]);
+  const [status, setStatus] = useState<StreamStatus>(enabled ? 'connecting' : 'idle');
+  const [error, setError] = useState<NetworkError | undefined>(undefined);
+  const controllerRef = useRef<AbortController | null>(null);
+  const callbacksRef = useRef({ parse, onItem, schema });
+  callbacksRef.current = { parse, onItem, schema };
+  const signalRef = useRef(signal);
+  signalRef.current = signal;
+  const startRef = useRef<() => void>(() => undefined);
+
+  startRef.current = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const isCurrent = () => controllerRef.current === controller;
+    const stopListening = onSignalAbort(signalRef.current, () => controller.abort());
+    setData([]);
+    setError(undefined);
+    setStatus('connecting');
+
+    let batch: T[] = [];
+    const toItem = (chunk: string): T => {
+      const { parse, schema } = callbacksRef.current;
+      const parsed = parse ? parse(chunk) : format === 'ndjson' ? JSON.parse(chunk) : chunk;
+      return schema ? validateData(schema, parsed) : parsed;
+    };
+    // one render per chunk, however many items it holds
+    const flush = () => {
+      if (batch.length === 0) return;
+      const items = batch;
+      batch = [];
+      items.forEach(item => callbacksRef.current.onItem?.(item));
+      if (isCurrent()) {
+        setData(current => [...current, ...items]);
+      }
+    };
+    const lines = createLineParser(line => batch.push(toItem(line)));
+    const onText = (text: string) => {
+      if (format === 'ndjson') {
+        lines.push(text);
+      } else if (text) {
+        batch.push(toItem(text));
+      }
+      flush();
+    };
+
+    try {
+      const response = await fetchWithRetry(
+        fetchImpl,
+        requestUrl,
+        { ...options, method },
+        { retry, retryDelay, maxRetryDelay, retryBackoff, retryJitter, timeout },
+        controller.signal,
+        async response => {
+          if (!response.ok) {
+            throw await createHttpError(response);
+          }
+          return response;
+        }
+      );
+      if (isCurrent()) setStatus('streaming');
+      await readBody(response, controller.signal, onText);
+      lines.flush();
+      flush();
+      if (isCurrent()) setStatus('done');
+    } catch (err) {
+      // a bad item ends the stream too, items parsed before the failure are kept
+      controller.abort();
+      flush();
+      const networkError = toNetworkError(err);
+      if (isCurrent()) {
+        setError(networkError instanceof AbortError ? undefined : networkError);
+        setStatus(networkError instanceof AbortError ? 'cancelled' : 'error');
+      }
+    } finally {
+      stopListening();
+      if (isCurrent()) {
+        controllerRef.current = null;
+      }
+    }
+  };
+
+  const abort = () => {
+    if (controllerRef.current) {
+      controllerRef.current.abort();
+      controllerRef.current = null;
+      setStatus('cancelled');
+    }
+  };
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('idle');
+      return;
+    }
+    startRef.current();
+    return () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    };
+  }, [requestKey, enabled, format]);
+
+  return {
+    data,
+    loading: status === 'connecting' || status === 'streaming',
+    status,
+    error,
+    refetch: () => {
+      startRef.current();
+    },
+    abort,
+  };
+};
+
+export type { StreamConfig, StreamState, StreamStatus, StreamFormat };
+
+export {
+  useStream,
+};
@@ -0,0 +1,103 @@
+import { createElement } from "react";
+import { renderHook } from "@testing-library/react-hooks";
+import { useFetch } from "./useFetch";
+import { useGraphQL } from "./useGraphQL";
+import { createQueryCache, createFetchCacheKey } from "./cache";
+import { NetworkProvider } from "./NetworkProvider";
+import { ValidationError } from "./errors";
+import { jsonSchema, validateData, SafeParseSchema } from "./validate";
+
+describe("response validation", () => {
+  interface User {
+    id: number;
+    name: string;
+  }
+
+  // a minimal stand-in for a Zod schema
+  const userSchema: SafeParseSchema<User> = {
+    safeParse: (data: any) =>
+      typeof data?.id === "number" && typeof data?.name === "string"
+        ? { success: true, data: { id: data.id, name: data.name } }
+        : { success: false, error: { issues: [{ path: ["name"], message: "Expected string" }] } },
+  };
+
+  const okResponse = (body: unknown) => ({
+    ok: true,
+    json: async () => body,
+  } as Response);
+
+  beforeEach(() => {
+    global.fetch = jest.fn();
+  });
+
+  it("should validate JSON Schemas", () => {
+    const validate = jsonSchema<User[]>({
+      type: "array",
+      items: {
+        type: "object",
+        required: ["id", "name"],
+        additionalProperties: false,
+        properties: { id: { type: "integer", minimum: 1 }, name: { type: "string", minLength: 1 } },
+      },
+    });
+
+    expect(validate([{ id: 1, name: "Ada" }])).toEqual([{ id: 1, name: "Ada" }]);
+    try {
+      validate([{ id: 0, name: "Ada" }, { id: 2, role: "admin" }]);
+      throw new Error("expected a ValidationError");
+    } catch (err) {
+      expect(err).toBeInstanceOf(ValidationError);
+      expect((err as ValidationError).issues).toEqual([
+        { path: [0, "id"], message: "Expected a number >= 1" },
+        { path: [1, "name"], message: "Required" },
+        { path: [1, "role"], message: "Unexpected property" },
+      ]);
+    }
+  });
+
+  it("should adapt plain functions and safeParse schemas", () => {
+    expect(validateData(userSchema, { id: 1, name: "Ada", extra: true })).toEqual({ id: 1, name: "Ada" });
+    expect(() => validateData(userSchema, { id: 1 })).toThrow("Response validation failed: name: Expected string");
+
+    const positive = (data: unknown) => {
+      if (typeof data !== "number" || data <= 0) throw new Error("Expected a positive number");
+      return data;
+    };
+    expect(validateData(positive, 2)).toBe(2);
+    expect(() => validateData(positive, -1)).toThrow(ValidationError);
+  });
+
+  it("should type data from the schema and report invalid responses without caching them", async () => {
+    const cache = createQueryCache();
+    (global.fetch as jest.Mock).mockResolvedValueOnce(okResponse({ id: "1" }));
+    const wrapper = ({ children }: { children: any }) => createElement(NetworkProvider, { cache }, children);
+
+    const { result, waitFor } = renderHook(
+      () => useFetch("/users/1", { debounceTime: 0, useCache: true, schema: userSchema }),
+      { wrapper }
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    const name: string | undefined = result.current.data?.name;
+    expect(name).toBeUndefined();
+    expect(result.current.error).toBeInstanceOf(ValidationError);
+    expect((result.current.error as ValidationError).data).toEqual({ id: "1" });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(cache.has(createFetchCacheKey("/users/1"))).toBe(false);
+  });
+
+  it("should validate useGraphQL data", async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(okResponse({ data: { user: { id: 1, name: "Ada" } } }));
+
+    const { result, waitFor } = renderHook(() =>
+      useGraphQL("/graphql", "{ user { id name } }", {
+        debounceTime: 0,
+        schema: (data: any) => validateData(userSchema, data.user),
+      })
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.error).toBeUndefined();
+    expect(result.current.data).toEqual({ id: 1, name: "Ada" });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Runtime validation of response data.
+ *
+ * The `schema` option of `useFetch` and `useGraphQL` accepts:
+ *
+ * - a plain function that returns the validated data or throws,
+ * - any Zod-style schema exposing `safeParse` (Zod, Valibot adapters, ...),
+ * - a JSON Schema, wrapped with `jsonSchema<T>(schema)`.
+ *
+ * The hook's `data` type is inferred from the schema. Data that fails validation
+ * is never cached; the hook reports a `ValidationError` listing the issues found.
+ *
+ * @example
+ * ```ts
+ * const User = z.object({ id: z.number(), name: z.string() });
+ * const { data } = useFetch('/api/users/1', { schema: User }); // data: { id: number; name: string } | undefined
+ *
+ * const { data } = useFetch('/api/users/1', {
+ *   schema: jsonSchema<User>({ type: 'object', required: ['id'], properties: { id: { type: 'integer' } } }),
+ * });
+ * ```
+ */
+import { ValidationError, ValidationIssue } from './errors';
+
+type ValidateFunction<T> = (data: unknown) => T;
+
+type SafeParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: { issues?: { path: (string | number)[]; message: string }[]; message?: string } };
+
+interface SafeParseSchema<T> {
+  safeParse: (data: unknown) => SafeParseResult<T>;
+}
+
+type Schema<T> = ValidateFunction<T> | SafeParseSchema<T>;
+
+type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  allOf?: JSONSchema[];
+}
+
+const typeOf = (value: unknown): JSONSchemaType | 'undefined' => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JSONSchemaType;
+};
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const checkJSONSchema = (schema: JSONSchema, value: unknown, path: (string | number)[], issues: ValidationIssue[]) => {
+  const report = (message: string) => issues.push({ path, message });
+  const actual = typeOf(value);
+
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = allowed.some(type => type === actual || (type === 'number' && actual === 'integer'));
+    if (!matches) {
+      report(`Expected ${allowed.join(' | ')}, received ${actual}`);
+      return;
+    }
+  }
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    report(`Expected ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some(option => isEqual(option, value))) {
+    report(`Expected one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) report(`Expected at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) report(`Expected at most ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) report(`Expected to match ${schema.pattern}`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) report(`Expected a number >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) report(`Expected a number <= ${schema.maximum}`);
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) report(`Expected at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) report(`Expected at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, index) => checkJSONSchema(schema.items!, item, [...path, index], issues));
+    }
+  }
+  if (actual === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+    (schema.required || []).forEach(key => {
+      if (record[key] === undefined) {
+        issues.push({ path: [...path, key], message: 'Required' });
+      }
+    });
+    Object.keys(record).forEach(key => {
+      if (properties[key]) {
+        if (record[key] !== undefined) {
+          checkJSONSchema(properties[key], record[key], [...path, key], issues);
+        }
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: [...path, key], message: 'Unexpected property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        checkJSONSchema(schema.additionalProperties, record[key], [...path, key], issues);
+      }
+    });
+  }
+
+  const failures = (schemas: JSONSchema[]) => schemas.map(option => {
+    const found: ValidationIssue[] = [];
+    checkJSONSchema(option, value, path, found);
+    return found;
+  });
+  if (schema.allOf) {
+    failures(schema.allOf).forEach(found => issues.push(...found));
+  }
+  if (schema.anyOf && !failures(schema.anyOf).some(found => !found.length)) {
+    report('Expected to match at least one schema in anyOf');
+  }
+  if (schema.oneOf && failures(schema.oneOf).filter(found => !found.length).length !== 1) {
+    report('Expected to match exactly one schema in oneOf');
+  }
+};
+
+/** Adapts a JSON Schema (the commonly used subset of draft 7) to the `schema` option. */
+const jsonSchema = <T = unknown>(schema: JSONSchema): ValidateFunction<T> => data => {
+  const issues: ValidationIssue[] = [];
+  checkJSONSchema(schema, data, [], issues);
+  if (issues.length) {
+    throw new ValidationError(issues, data);
+  }
+  return data as T;
+};
+
+/** Runs `data` through `schema`, throwing a `ValidationError` when it does not match. */
+const validateData = <T>(schema: Schema<T>, data: unknown): T => {
+  if (typeof schema === 'function') {
+    try {
+      return schema(data);
+    } catch (err) {
+      if (err instanceof ValidationError) throw err;
+      throw new ValidationError([{ path: [], message: err instanceof Error ? err.message : String(err) }], data, err);
+    }
+  }
+
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+  const issues = result.error.issues
+    ? result.error.issues.map(({ path, message }) => ({ path: [...path], message }))
+    : [{ path: [], message: result.error.message || 'Invalid data' }];
+  throw new ValidationError(issues, data, result.error);
+};
+
+export type { Schema, SafeParseSchema, SafeParseResult, ValidateFunction, JSONSchema, JSONSchemaType };
+
+export {
+  jsonSchema,
+  validateData,
+};